@@ -40,9 +40,10 @@ export async function prepareElement(
 	page: puppeteer.Page,
 	handle: puppeteer.ElementHandle<Element>,
 	keepBackdrop: boolean,
+	hideContent = false,
 ): Promise<void> {
 	await page.evaluate(
-		(element, allowBackdrop) => {
+		(element, allowBackdrop, hideAll) => {
 			// Kill all CSS transitions so visibility:hidden takes effect immediately
 			let killSheet = document.getElementById("hy-kill-transitions") as HTMLStyleElement | null;
 			if (!killSheet) {
@@ -63,8 +64,8 @@ export async function prepareElement(
 				}
 				(child as HTMLElement).style.visibility = "hidden";
 			});
-			// hideDescendants
-			element.querySelectorAll("[data-hy-idx]").forEach(child => {
+			// hideDescendants (every descendant when the content is mock data)
+			element.querySelectorAll(hideAll ? "*" : "[data-hy-idx]").forEach(child => {
 				if (!child.hasAttribute("data-hy-prev-visibility")) {
 					child.setAttribute("data-hy-prev-visibility", (child as HTMLElement).style.visibility || "");
 				}
@@ -85,6 +86,7 @@ export async function prepareElement(
 		},
 		handle,
 		keepBackdrop,
+		hideContent,
 	);
 }
 
@@ -127,17 +129,25 @@ export async function restoreElement(page: puppeteer.Page, handle: puppeteer.Ele
 	}, handle);
 }
 
+type StateSnapshot = {
+	dataState: string | null;
+	disabled: boolean;
+	ariaDisabled: string | null;
+	ariaSelected: string | null;
+};
+
 export async function applyState(
 	page: puppeteer.Page,
 	handle: puppeteer.ElementHandle<Element>,
 	state: string | null,
-): Promise<{ dataState: string | null; disabled: boolean; ariaDisabled: string | null }> {
+): Promise<StateSnapshot> {
 	return await page.evaluate(
 		(element, nextState) => {
 			const prev = {
 				dataState: element.getAttribute("data-state"),
 				disabled: element.hasAttribute("disabled"),
 				ariaDisabled: element.getAttribute("aria-disabled"),
+				ariaSelected: element.getAttribute("aria-selected"),
 			};
 
 			if (nextState) {
@@ -156,6 +166,11 @@ export async function applyState(
 				}
 			}
 
+			// Tabs styled through aria-selected follow the active/inactive capture as well
+			if (nextState === "active" || nextState === "inactive") {
+				element.setAttribute("aria-selected", String(nextState === "active"));
+			}
+
 			return prev;
 		},
 		handle,
@@ -166,7 +181,7 @@ export async function applyState(
 export async function restoreState(
 	page: puppeteer.Page,
 	handle: puppeteer.ElementHandle<Element>,
-	prev: { dataState: string | null; disabled: boolean; ariaDisabled: string | null },
+	prev: StateSnapshot,
 ): Promise<void> {
 	await page.evaluate(
 		(element, previous) => {
@@ -187,40 +202,370 @@ export async function restoreState(
 			} else {
 				element.setAttribute("aria-disabled", previous.ariaDisabled);
 			}
+
+			if (previous.ariaSelected === null) {
+				element.removeAttribute("aria-selected");
+			} else {
+				element.setAttribute("aria-selected", previous.ariaSelected);
+			}
+		},
+		handle,
+		prev,
+	);
+}
+
+// `group` holds the checked state of every input in the toggle's group: checking a radio
+// unchecks its siblings, so the whole group is put back afterwards.
+type CheckedSnapshot = { group: boolean[]; ariaChecked: string | null; ariaPressed: string | null };
+
+export async function applyChecked(
+	page: puppeteer.Page,
+	handle: puppeteer.ElementHandle<Element>,
+	checked: boolean,
+): Promise<CheckedSnapshot> {
+	return await page.evaluate(
+		(element, nextChecked) => {
+			// Labels wrapping a checkbox toggle the nested input
+			const input = (
+				element.matches("input") ? element : element.querySelector('input[type="checkbox"], input[type="radio"]')
+			) as HTMLInputElement | null;
+			const group =
+				input?.type === "radio" && input.name
+					? Array.from(document.querySelectorAll<HTMLInputElement>('input[type="radio"]')).filter(
+							radio => radio.name === input.name && radio.form === input.form,
+						)
+					: input
+						? [input]
+						: [];
+			const prev = {
+				group: group.map(member => member.checked),
+				ariaChecked: element.getAttribute("aria-checked"),
+				ariaPressed: element.getAttribute("aria-pressed"),
+			};
+			if (input) input.checked = nextChecked;
+			if (prev.ariaChecked !== null) element.setAttribute("aria-checked", String(nextChecked));
+			if (prev.ariaPressed !== null || !input) element.setAttribute("aria-pressed", String(nextChecked));
+			return prev;
+		},
+		handle,
+		checked,
+	);
+}
+
+export async function restoreChecked(
+	page: puppeteer.Page,
+	handle: puppeteer.ElementHandle<Element>,
+	prev: CheckedSnapshot,
+): Promise<void> {
+	await page.evaluate(
+		(element, previous) => {
+			const input = (
+				element.matches("input") ? element : element.querySelector('input[type="checkbox"], input[type="radio"]')
+			) as HTMLInputElement | null;
+			const group =
+				input?.type === "radio" && input.name
+					? Array.from(document.querySelectorAll<HTMLInputElement>('input[type="radio"]')).filter(
+							radio => radio.name === input.name && radio.form === input.form,
+						)
+					: input
+						? [input]
+						: [];
+			group.forEach((member, i) => {
+				member.checked = previous.group[i] ?? member.checked;
+			});
+			if (previous.ariaChecked === null) {
+				element.removeAttribute("aria-checked");
+			} else {
+				element.setAttribute("aria-checked", previous.ariaChecked);
+			}
+			if (previous.ariaPressed === null) {
+				element.removeAttribute("aria-pressed");
+			} else {
+				element.setAttribute("aria-pressed", previous.ariaPressed);
+			}
 		},
 		handle,
 		prev,
 	);
 }
 
+type RangeSnapshot = { value: string | null; ariaValueNow: string | null; progressVar: string };
+
+export async function applyRangeValue(
+	page: puppeteer.Page,
+	handle: puppeteer.ElementHandle<Element>,
+	fraction: number,
+	hideThumb: boolean,
+): Promise<RangeSnapshot> {
+	return await page.evaluate(
+		(element, nextFraction, hide) => {
+			let thumbSheet = document.getElementById("hy-hide-thumb") as HTMLStyleElement | null;
+			if (!thumbSheet) {
+				thumbSheet = document.createElement("style");
+				thumbSheet.id = "hy-hide-thumb";
+				thumbSheet.textContent = "[data-hy-hide-thumb]::-webkit-slider-thumb { opacity: 0 !important; }";
+				document.head.appendChild(thumbSheet);
+			}
+			const target = element as HTMLElement & { value?: string | number; min?: string; max?: string | number };
+			const prev = {
+				value: "value" in target ? String(target.value) : null,
+				ariaValueNow: element.getAttribute("aria-valuenow"),
+				progressVar: target.style.getPropertyValue("--hy-progress"),
+			};
+			const tag = element.tagName.toLowerCase();
+			if (tag === "progress") {
+				target.value = Number(target.max) * nextFraction;
+			} else if (tag === "input" || tag === "meter") {
+				const min = Number(target.min || 0);
+				const max = Number(target.max || (tag === "meter" ? 1 : 100));
+				target.value = String(min + (max - min) * nextFraction);
+			} else {
+				const min = Number(element.getAttribute("aria-valuemin") ?? 0);
+				const max = Number(element.getAttribute("aria-valuemax") ?? 100);
+				element.setAttribute("aria-valuenow", String(min + (max - min) * nextFraction));
+			}
+			// Custom bars can drive their fill from this variable
+			target.style.setProperty("--hy-progress", String(nextFraction));
+			if (hide) element.setAttribute("data-hy-hide-thumb", "");
+			return prev;
+		},
+		handle,
+		fraction,
+		hideThumb,
+	);
+}
+
+export async function restoreRangeValue(
+	page: puppeteer.Page,
+	handle: puppeteer.ElementHandle<Element>,
+	prev: RangeSnapshot,
+): Promise<void> {
+	await page.evaluate(
+		(element, previous) => {
+			const target = element as HTMLElement & { value?: string };
+			if (previous.value !== null) target.value = previous.value;
+			if (previous.ariaValueNow === null) {
+				element.removeAttribute("aria-valuenow");
+			} else {
+				element.setAttribute("aria-valuenow", previous.ariaValueNow);
+			}
+			if (previous.progressVar) {
+				target.style.setProperty("--hy-progress", previous.progressVar);
+			} else {
+				target.style.removeProperty("--hy-progress");
+			}
+			element.removeAttribute("data-hy-hide-thumb");
+			document.getElementById("hy-hide-thumb")?.remove();
+		},
+		handle,
+		prev,
+	);
+}
+
+// Pseudo-classes forced through the DevTools CSS domain for each captured interaction state.
+const STATE_PSEUDO_CLASSES: Record<string, string[]> = {
+	hover: ["hover"],
+	pressed: ["hover", "active"],
+	focus: ["focus", "focus-visible"],
+};
+
+export async function openPseudoStateSession(page: puppeteer.Page): Promise<puppeteer.CDPSession> {
+	const session = await page.createCDPSession();
+	await session.send("DOM.enable");
+	await session.send("CSS.enable");
+	// DOM.requestNode only resolves nodes once the document has been requested
+	await session.send("DOM.getDocument", { depth: 0 });
+	return session;
+}
+
+async function forcePseudoState(
+	session: puppeteer.CDPSession,
+	handle: puppeteer.ElementHandle<Element>,
+	pseudoClasses: string[],
+): Promise<void> {
+	const objectId = handle.remoteObject().objectId;
+	if (!objectId) return;
+	const { nodeId } = await session.send("DOM.requestNode", { objectId });
+	await session.send("CSS.forcePseudoState", { nodeId, forcedPseudoClasses: pseudoClasses });
+}
+
 export async function captureElementStateBuffer(params: {
 	page: puppeteer.Page;
+	session: puppeteer.CDPSession;
 	handle: puppeteer.ElementHandle<Element>;
 	clip: Rect;
 	state: string;
+	dataState?: string;
+	checked?: boolean;
+	range?: { fraction: number; hideThumb: boolean };
 }): Promise<Buffer> {
-	const { page, handle, clip, state } = params;
-	const stateAttr = ["disabled", "selected", "focus"].includes(state) ? state : null;
+	const { page, session, handle, clip, state, dataState, checked, range } = params;
+	const stateAttr = dataState ?? (["disabled", "selected", "focus"].includes(state) ? state : null);
+	const pseudoClasses = STATE_PSEUDO_CLASSES[state] ?? [];
 	const prevState = await applyState(page, handle, stateAttr);
+	const prevChecked = checked === undefined ? null : await applyChecked(page, handle, checked);
+	const prevRange = range ? await applyRangeValue(page, handle, range.fraction, range.hideThumb) : null;
 	try {
-		if (state === "hover" || state === "pressed") {
-			await handle.hover();
-		}
-		if (state === "pressed") {
-			await page.mouse.down();
+		if (pseudoClasses.length > 0) {
+			await forcePseudoState(session, handle, pseudoClasses);
 		}
-		if (state === "focus") {
-			await handle.focus();
-		}
-
 		return (await page.screenshot({ clip, omitBackground: true, optimizeForSpeed: true })) as Buffer;
 	} finally {
-		if (state === "pressed") {
-			await page.mouse.up();
+		if (pseudoClasses.length > 0) {
+			await forcePseudoState(session, handle, []);
+		}
+		if (prevRange) {
+			await restoreRangeValue(page, handle, prevRange);
 		}
-		if (state === "focus") {
-			await page.evaluate(element => (element as HTMLElement).blur(), handle);
+		if (prevChecked) {
+			await restoreChecked(page, handle, prevChecked);
 		}
 		await restoreState(page, handle, prevState);
 	}
 }
+
+/**
+ * Native select popups are drawn outside the page, so the open panel is rebuilt as a
+ * temporary element below the select, styled like the select (or its options when they
+ * set their own background), and captured without entry text.
+ */
+export async function captureDropdownPanelBuffer(params: {
+	page: puppeteer.Page;
+	handle: puppeteer.ElementHandle<Element>;
+	entryCount: number;
+}): Promise<Buffer | null> {
+	const { page, handle, entryCount } = params;
+	const clip = await page.evaluate(
+		(element, count) => {
+			const rect = element.getBoundingClientRect();
+			const computed = window.getComputedStyle(element);
+			const option = element.querySelector("option");
+			const optionBackground = option ? window.getComputedStyle(option).backgroundColor : "";
+			const panel = document.createElement("div");
+			panel.id = "hy-dropdown-panel";
+			Object.assign(panel.style, {
+				position: "fixed",
+				left: `${rect.left}px`,
+				top: `${rect.bottom}px`,
+				width: `${rect.width}px`,
+				height: `${rect.height * count}px`,
+				boxSizing: "border-box",
+				zIndex: "2147483647",
+				visibility: "visible",
+				backgroundColor: computed.backgroundColor,
+				backgroundImage: computed.backgroundImage,
+				backgroundSize: computed.backgroundSize,
+				borderTop: computed.borderTop,
+				borderRight: computed.borderRight,
+				borderBottom: computed.borderBottom,
+				borderLeft: computed.borderLeft,
+				borderRadius: computed.borderRadius,
+				boxShadow: computed.boxShadow,
+			});
+			if (optionBackground && optionBackground !== "rgba(0, 0, 0, 0)") {
+				panel.style.backgroundColor = optionBackground;
+				panel.style.backgroundImage = "none";
+			}
+			document.body.appendChild(panel);
+			const panelRect = panel.getBoundingClientRect();
+			return { x: panelRect.x, y: panelRect.y, width: panelRect.width, height: panelRect.height };
+		},
+		handle,
+		entryCount,
+	);
+	try {
+		if (clip.width <= 0 || clip.height <= 0) return null;
+		return (await page.screenshot({ clip, omitBackground: true, optimizeForSpeed: true })) as Buffer;
+	} finally {
+		await page.evaluate(() => document.getElementById("hy-dropdown-panel")?.remove());
+	}
+}
+
+/**
+ * Swaps the text of each label for a pseudo-localized version (accented letters plus
+ * `expansion` worth of padding), measures it against the label's original box and line
+ * count, then puts the original text back. Labels are found by their position among the
+ * elements of document.body, so the page can be a fresh load of the one they were extracted from.
+ */
+export async function measurePseudoLocaleOverflow(
+	page: puppeteer.Page,
+	labels: Array<{ idx: number; domIndex: number }>,
+	expansion: number,
+): Promise<Array<{ idx: number; overflowX: number; overflowY: number; linesBefore: number; linesAfter: number }>> {
+	return page.evaluate(
+		(labelRefs, ratio) => {
+			const accents: Record<string, string> = {
+				a: "á",
+				c: "ç",
+				e: "é",
+				i: "î",
+				n: "ñ",
+				o: "ö",
+				s: "š",
+				u: "ü",
+				y: "ý",
+				A: "Å",
+				C: "Ç",
+				E: "É",
+				I: "Î",
+				N: "Ñ",
+				O: "Ö",
+				S: "Š",
+				U: "Û",
+				Y: "Ý",
+			};
+			const countLines = (range: Range) => {
+				const tops: number[] = [];
+				for (const rect of Array.from(range.getClientRects())) {
+					if (rect.width === 0 || tops.some(top => Math.abs(top - rect.top) < rect.height / 2)) continue;
+					tops.push(rect.top);
+				}
+				return tops.length;
+			};
+			const results = [];
+			const elements = Array.from(document.body.querySelectorAll("*"));
+			for (const { idx, domIndex } of labelRefs) {
+				const element = elements[domIndex];
+				if (!element) continue;
+				const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+				const textNodes: Text[] = [];
+				while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+				const visible = textNodes.filter(node => (node.textContent ?? "").trim().length > 0);
+				if (visible.length === 0) continue;
+
+				const box = element.getBoundingClientRect();
+				if (box.width === 0 && box.height === 0) continue;
+				const range = document.createRange();
+				range.selectNodeContents(element);
+				const linesBefore = countLines(range);
+				const originals = visible.map(node => node.textContent ?? "");
+				const length = originals.join("").trim().length;
+				visible.forEach((node, i) => {
+					node.textContent = originals[i]!.replace(/[A-Za-z]/g, ch => accents[ch] ?? ch);
+				});
+				const first = visible[0]!;
+				const last = visible[visible.length - 1]!;
+				first.textContent = (first.textContent ?? "").replace(/^(\s*)/, "$1[");
+				last.textContent = (last.textContent ?? "").replace(
+					/(\s*)$/,
+					`${"~".repeat(Math.max(1, Math.ceil(length * ratio)))}]$1`,
+				);
+
+				const after = range.getBoundingClientRect();
+				results.push({
+					idx,
+					overflowX: Math.max(0, Math.round(Math.max(after.right - box.right, box.left - after.left))),
+					overflowY: Math.max(0, Math.round(Math.max(after.bottom - box.bottom, box.top - after.top))),
+					linesBefore,
+					linesAfter: countLines(range),
+				});
+				visible.forEach((node, i) => {
+					node.textContent = originals[i]!;
+				});
+			}
+			return results;
+		},
+		labels,
+		expansion,
+	);
+}
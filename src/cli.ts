@@ -6,7 +6,14 @@ import type { Args, Viewport } from "./types.js";
 export function parseArgs(argv: string[]): Args {
 	const raw: Record<string, string> = {};
 	const flags = new Set<string>();
-	const booleanFlags = new Set(["check", "force", "strict-validate"]);
+	const booleanFlags = new Set([
+		"check",
+		"force",
+		"strict-validate",
+		"auto-i18n",
+		"pseudo-locale",
+		"strict-pseudo-locale",
+	]);
 	for (let i = 0; i < argv.length; i += 1) {
 		const arg = argv[i];
 		if (!arg || !arg.startsWith("--")) continue;
@@ -30,6 +37,14 @@ export function parseArgs(argv: string[]): Args {
 	const outResources = path.resolve(raw["out-resources"]);
 	const outUi = path.resolve(raw["out-ui"]);
 	const outHtml = raw["out-html"] ? path.resolve(raw["out-html"]) : path.resolve(outResources, "..", "html");
+	const namespace = raw.namespace ?? "HTML";
+	const outLang = raw["out-lang"]
+		? path.resolve(raw["out-lang"])
+		: path.join(outResources, "Server", "Languages", "en-US", `${namespace}.lang`);
+	if (raw["out-java"] && !raw["java-package"]) throw new Error("--java-package is required with --out-java");
+	if (raw["java-package"] && !/^[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*$/.test(raw["java-package"])) {
+		throw new Error(`Invalid Java package "${raw["java-package"]}".`);
+	}
 
 	return {
 		input: path.resolve(raw.input),
@@ -37,10 +52,16 @@ export function parseArgs(argv: string[]): Args {
 		outUi,
 		outHtml,
 		viewport: raw.viewport ? parseViewport(raw.viewport) : DEFAULT_VIEWPORT,
-		namespace: raw.namespace ?? "HTML",
+		namespace,
 		check: flags.has("check") || !flags.has("force"),
 		strictValidate: flags.has("strict-validate"),
 		force: flags.has("force"),
+		outLang,
+		autoI18n: flags.has("auto-i18n"),
+		pseudoLocale: flags.has("pseudo-locale") || flags.has("strict-pseudo-locale"),
+		strictPseudoLocale: flags.has("strict-pseudo-locale"),
+		outJava: raw["out-java"] ? path.resolve(raw["out-java"]) : null,
+		javaPackage: raw["java-package"] ?? null,
 	};
 }
 
@@ -0,0 +1,51 @@
+import { promises as fsp } from "node:fs";
+import path from "node:path";
+
+import { exists, pageStylesFileName, writeFileSafe } from "./utils.js";
+
+export type SharedStyles = Record<string, string>; // style variable name -> value
+
+/**
+ * Styles one page takes from `Common.ui`. Like the language entries they are kept next to the
+ * page hash, so pages skipped by `--check` keep their styles in the merged file.
+ */
+export async function writePageSharedStyles(params: {
+	uiOutputDir: string;
+	htmlPath: string;
+	styles: SharedStyles;
+}): Promise<void> {
+	const { uiOutputDir, htmlPath, styles } = params;
+	const filePath = path.join(uiOutputDir, pageStylesFileName(htmlPath));
+	await fsp.writeFile(filePath, `${JSON.stringify(styles, null, 2)}\n`, "utf8");
+}
+
+export function buildCommonUi(styles: SharedStyles): string {
+	const names = Object.keys(styles).sort((a, b) => a.localeCompare(b));
+	return `${names.map(name => `@${name} = ${styles[name]};`).join("\n")}\n`;
+}
+
+/**
+ * Merges the styles of every page into the namespace's `Common.ui`. Style names are derived
+ * from their value, so pages never disagree about a name. Returns the number of styles written.
+ */
+export async function writeCommonUi(params: {
+	uiOutputDir: string;
+	htmlPaths: string[];
+	outputPath: string;
+}): Promise<number> {
+	const { uiOutputDir, htmlPaths, outputPath } = params;
+	const merged: SharedStyles = {};
+	for (const htmlPath of htmlPaths) {
+		const filePath = path.join(uiOutputDir, pageStylesFileName(htmlPath));
+		if (!(await exists(filePath))) continue;
+		Object.assign(merged, JSON.parse(await fsp.readFile(filePath, "utf8")) as SharedStyles);
+	}
+
+	const count = Object.keys(merged).length;
+	if (count > 0) {
+		await writeFileSafe(outputPath, Buffer.from(buildCommonUi(merged), "utf8"));
+	} else {
+		await fsp.rm(outputPath, { force: true });
+	}
+	return count;
+}
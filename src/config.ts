@@ -0,0 +1,76 @@
+import { promises as fsp } from "node:fs";
+import path from "node:path";
+
+import { DEFAULT_FONT_MAPPING, DEFAULT_PREVIEW_FONTS, PROJECT_CONFIG_FILE } from "./constants.js";
+import type { ProjectConfig } from "./types.js";
+import { exists } from "./utils.js";
+
+function readStringMap(value: unknown, field: string, configPath: string): Record<string, string> {
+	if (value === undefined) return {};
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		throw new Error(`${configPath}: "${field}" must be an object of strings.`);
+	}
+	const result: Record<string, string> = {};
+	for (const [key, entry] of Object.entries(value)) {
+		if (typeof entry !== "string") throw new Error(`${configPath}: "${field}.${key}" must be a string.`);
+		result[key] = entry;
+	}
+	return result;
+}
+
+/** Reads `<input>/html2hytale.config.json`; every section is optional and falls back to the defaults. */
+export async function loadProjectConfig(inputDir: string): Promise<ProjectConfig> {
+	const configPath = path.join(inputDir, PROJECT_CONFIG_FILE);
+	const parsed = (await exists(configPath))
+		? (JSON.parse(await fsp.readFile(configPath, "utf8")) as Record<string, unknown>)
+		: {};
+	const fonts = readStringMap(parsed.fonts, "fonts", configPath);
+	const previewFonts = readStringMap(parsed.previewFonts, "previewFonts", configPath);
+	return {
+		fonts: { ...DEFAULT_FONT_MAPPING, ...fonts },
+		previewFonts: { ...DEFAULT_PREVIEW_FONTS, ...previewFonts },
+	};
+}
+
+const GENERIC_FONT_FAMILIES = new Set([
+	"serif",
+	"sans-serif",
+	"monospace",
+	"cursive",
+	"fantasy",
+	"system-ui",
+	"ui-serif",
+	"ui-sans-serif",
+	"ui-monospace",
+	"ui-rounded",
+	"emoji",
+	"math",
+	"fangsong",
+]);
+
+function splitFontFamilies(fontFamily: string): string[] {
+	return fontFamily
+		.split(",")
+		.map(family => family.trim().replace(/^["']|["']$/g, ""))
+		.filter(Boolean);
+}
+
+/**
+ * Resolves a computed `font-family` list to a Hytale FontName using the first family that
+ * has a mapping. `warning` is set when the primary family isn't mapped itself.
+ */
+export function resolveFontName(
+	fontFamily: string,
+	fonts: Record<string, string>,
+): { fontName: string | null; warning: string | null } {
+	const families = splitFontFamilies(fontFamily);
+	const lookup = new Map(Object.entries(fonts).map(([family, fontName]) => [family.toLowerCase(), fontName]));
+	const primary = families[0];
+	const mapped = families.find(family => lookup.has(family.toLowerCase()));
+	const fontName = mapped ? lookup.get(mapped.toLowerCase())! : null;
+	if (!primary || mapped === primary || GENERIC_FONT_FAMILIES.has(primary.toLowerCase())) {
+		return { fontName, warning: null };
+	}
+	const fallback = fontName ? `using ${fontName} from "${mapped}"` : "using the default font";
+	return { fontName, warning: `font "${primary}" has no FontName mapping; ${fallback}` };
+}
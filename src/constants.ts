@@ -4,6 +4,77 @@ export const DEFAULT_VIEWPORT: Viewport = { width: 1920, height: 1080 };
 export const FONT_READY_TIMEOUT_MS = 500;
 export const HIRES_THRESHOLD = 400;
 
+// Pseudo-localization check: labels are re-rendered this much longer (German runs about 30% over English).
+export const PSEUDO_LOCALE_EXPANSION = 0.3;
+export const PSEUDO_LOCALE_TOLERANCE_PX = 1;
+
+// Scrollbar defaults for scroll containers without `scrollbar-width`/`scrollbar-color`.
+export const SCROLLBAR_SIZE = 8;
+export const SCROLLBAR_THIN_SIZE = 6;
+export const SCROLLBAR_HANDLE_COLOR = "#ffffff(0.25)";
+export const SCROLLBAR_TRACK_COLOR = "#000000(0)";
+
+// Text shadows up to this size read as an outline and map to LabelStyle.OutlineColor;
+// anything larger (drop shadows, glows) is rasterized with the label.
+export const TEXT_OUTLINE_MAX_OFFSET_PX = 2;
+export const TEXT_OUTLINE_MAX_BLUR_PX = 1;
+
+// Character `<input type="password">` fields mask their text with.
+export const TEXT_FIELD_PASSWORD_CHAR = "*";
+
+export const PROJECT_CONFIG_FILE = "html2hytale.config.json";
+
+// CustomUIEventBindingType values accepted by data-hy-event.
+export const UI_EVENT_TYPES: ReadonlySet<string> = new Set([
+	"Activating",
+	"RightClicking",
+	"DoubleClicking",
+	"MouseEntered",
+	"MouseExited",
+	"ValueChanged",
+	"ElementReordered",
+	"Validating",
+	"Dismissing",
+	"FocusGained",
+	"FocusLost",
+	"KeyDown",
+	"MouseButtonReleased",
+	"SlotClicking",
+	"SlotDoubleClicking",
+	"SlotMouseEntered",
+	"SlotMouseExited",
+	"DragCancelled",
+	"Dropped",
+	"SlotMouseDragCompleted",
+	"SlotMouseDragExited",
+	"SlotClickReleaseWhileDragging",
+	"SlotClickPressWhileDragging",
+	"SelectedTabChanged",
+]);
+
+// Label and button styles are shared between the pages of a namespace through this file,
+// imported by each page under COMMON_UI_ALIAS.
+export const COMMON_UI_FILE = "Common.ui";
+export const COMMON_UI_ALIAS = "$C";
+
+// CSS font-family -> Hytale FontName, extended by the "fonts" section of the project config.
+export const DEFAULT_FONT_MAPPING: Readonly<Record<string, string>> = {
+	"sans-serif": "Default",
+	"system-ui": "Default",
+	"ui-sans-serif": "Default",
+	serif: "Secondary",
+	"ui-serif": "Secondary",
+	monospace: "Mono",
+	"ui-monospace": "Mono",
+};
+
+// Hytale FontName -> CSS font stack used by the preview, extended by "previewFonts".
+export const DEFAULT_PREVIEW_FONTS: Readonly<Record<string, string>> = {
+	Default: "sans-serif",
+	Secondary: "serif",
+	Mono: "monospace",
+};
+
 export const SHARED_TEXTURES_DIR = "Shared";
 export const SHARED_TEXTURE_PREFIX = "t";
 
@@ -15,3 +86,8 @@ export const DEDUPE_MAX_MISMATCH_PIXELS = 64; // Cap mismatches for very large t
 export const DEDUPE_CHANNEL_TOLERANCE = 4; // 0-255 per-channel (premultiplied RGBA)
 export const DEDUPE_ALPHA_IGNORE_BELOW = 4; // Treat both pixels as equal if both alpha <= this
 export const DEDUPE_FINGERPRINT_SIZE = 16; // Downsample grid for candidate bucketing
+
+// Nine-slice detection. A capture whose middle columns and rows repeat is shrunk to its
+// borders plus a stretch band and referenced through a PatchStyle instead of at full size.
+export const SLICE_CHANNEL_TOLERANCE = 2; // 0-255 per-channel (straight RGBA), also used for solid colors
+export const SLICE_MAX_AREA_RATIO = 0.5; // Only slice when the result is at most half the original area
@@ -0,0 +1,61 @@
+import { promises as fsp } from "node:fs";
+import path from "node:path";
+
+import type { GeneratedElement } from "./types.js";
+import { pageEventsFileName } from "./utils.js";
+
+export type EventBinding = {
+	selector: string; // relative to the row in row documents; empty for the row itself
+	event: string; // CustomUIEventBindingType
+	action: string;
+	data: Record<string, string> | null;
+};
+
+export type EventManifest = {
+	page: string;
+	uiPath: string; // relative to Common/UI/Custom
+	bindings: EventBinding[];
+	rows: Array<{ name: string; uiPath: string; list: string; bindings: EventBinding[] }>;
+};
+
+/**
+ * The `data-hy-event` declarations of a rendered document, addressed by the selectors the
+ * generator used. With `rowSelector`, selectors are made relative to that row.
+ */
+export function collectEventBindings(
+	elements: GeneratedElement[],
+	selectors: Map<GeneratedElement, string>,
+	rowSelector: string | null = null,
+): EventBinding[] {
+	const bindings: EventBinding[] = [];
+	for (const element of elements) {
+		const absolute = selectors.get(element);
+		if (!absolute) continue;
+		let selector = absolute;
+		if (rowSelector && absolute === rowSelector) selector = "";
+		else if (rowSelector && absolute.startsWith(`${rowSelector} `)) selector = absolute.slice(rowSelector.length + 1);
+		for (const { type, action, data } of element.events) {
+			bindings.push({ selector, event: type, action, data });
+		}
+	}
+	return bindings;
+}
+
+export function hasEventBindings(manifest: EventManifest): boolean {
+	return manifest.bindings.length > 0 || manifest.rows.some(row => row.bindings.length > 0);
+}
+
+/** Writes `<page>.events.json` next to the page document, or removes it when nothing is bound. */
+export async function writeEventManifest(params: {
+	uiOutputDir: string;
+	htmlPath: string;
+	manifest: EventManifest;
+}): Promise<void> {
+	const { uiOutputDir, htmlPath, manifest } = params;
+	const filePath = path.join(uiOutputDir, pageEventsFileName(htmlPath));
+	if (!hasEventBindings(manifest)) {
+		await fsp.rm(filePath, { force: true });
+		return;
+	}
+	await fsp.writeFile(filePath, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+}
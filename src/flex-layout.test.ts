@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+
+import { resolveFlexLayout } from "./flex-layout.js";
+import type { FlexContainer, Insets } from "./types.js";
+
+const NO_INSETS: Insets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+const owner = (padding: Insets = NO_INSETS) => ({
+	rect: { x: 0, y: 0, width: 300, height: 100 },
+	padding,
+	border: NO_INSETS,
+});
+
+const container = (overrides: Partial<FlexContainer> = {}): FlexContainer => ({
+	direction: "row",
+	justifyContent: "normal",
+	alignItems: "normal",
+	gap: 10,
+	items: [0, 1, 2],
+	...overrides,
+});
+
+// Three 50x20 items placed along the main axis from `start`, at `cross` on the other axis
+const row = (start: number, cross = 0) =>
+	[0, 1, 2].map(n => ({ rawId: `item${n}`, rect: { x: start + n * 60, y: cross, width: 50, height: 20 } }));
+const column = (start: number, cross = 0) =>
+	[0, 1, 2].map(n => ({ rawId: `item${n}`, rect: { x: cross, y: start + n * 30, width: 50, height: 20 } }));
+
+describe("resolveFlexLayout", () => {
+	test("maps justify-content along a row", () => {
+		expect(resolveFlexLayout(owner(), container(), row(0))).toEqual({ mode: "Left", gap: 10 });
+		expect(resolveFlexLayout(owner(), container({ justifyContent: "flex-start" }), row(0))).toMatchObject({
+			mode: "Left",
+		});
+		expect(resolveFlexLayout(owner(), container({ justifyContent: "center" }), row(65))).toMatchObject({
+			mode: "Center",
+		});
+		expect(resolveFlexLayout(owner(), container({ justifyContent: "flex-end" }), row(130))).toMatchObject({
+			mode: "Right",
+		});
+	});
+
+	test("maps justify-content along a column", () => {
+		const vertical = (justifyContent: string) => container({ direction: "column", justifyContent });
+		expect(resolveFlexLayout(owner(), vertical("normal"), column(0))).toMatchObject({ mode: "Top" });
+		expect(resolveFlexLayout(owner(), vertical("center"), column(10))).toMatchObject({ mode: "Middle" });
+		expect(resolveFlexLayout(owner(), vertical("end"), column(20))).toMatchObject({ mode: "Bottom" });
+	});
+
+	test("centers on both axes when items are centered too", () => {
+		const centered = container({ justifyContent: "center", alignItems: "center" });
+		expect(resolveFlexLayout(owner(), centered, row(65, 40))).toMatchObject({ mode: "CenterMiddle" });
+		const vertical = container({ direction: "column", justifyContent: "center", alignItems: "center" });
+		expect(resolveFlexLayout(owner(), vertical, column(10, 125))).toMatchObject({ mode: "MiddleCenter" });
+	});
+
+	test("measures positions inside the owner's padding", () => {
+		const padded = owner({ top: 8, right: 0, bottom: 0, left: 12 });
+		expect(resolveFlexLayout(padded, container(), row(12, 8))).toMatchObject({ mode: "Left" });
+	});
+
+	test("rejects directions and distributions LayoutMode can't express", () => {
+		expect(resolveFlexLayout(owner(), container({ direction: "row-reverse" }), row(0))).toBe(
+			"flex-direction: row-reverse has no LayoutMode equivalent",
+		);
+		expect(resolveFlexLayout(owner(), container({ justifyContent: "space-between" }), row(0))).toBe(
+			"justify-content: space-between has no LayoutMode equivalent",
+		);
+	});
+
+	test("rejects modes that don't reproduce the rendered positions", () => {
+		// align-items: center without centered justification has no LayoutMode
+		expect(resolveFlexLayout(owner(), container({ alignItems: "center" }), row(0, 40))).toBe(
+			"Left layout does not reproduce the rendered position of item0",
+		);
+		// A margin on the second item shifts it past the gap
+		const shifted = row(0);
+		shifted[1]!.rect.x += 8;
+		expect(resolveFlexLayout(owner(), container(), shifted)).toBe(
+			"Left layout does not reproduce the rendered position of item1",
+		);
+	});
+});
@@ -0,0 +1,64 @@
+import type { FlexContainer, RawElement } from "./types.js";
+
+const POSITION_TOLERANCE_PX = 2;
+
+const nearlyEqual = (a: number, b: number) => Math.abs(a - b) <= POSITION_TOLERANCE_PX;
+
+/**
+ * Maps the flex container an element's children sit in to a LayoutMode. The mode is only
+ * returned when it reproduces the rendered position of every child inside the owner's content
+ * box; otherwise the reason it can't be used is returned.
+ */
+export function resolveFlexLayout(
+	owner: Pick<RawElement, "rect" | "padding" | "border">,
+	container: FlexContainer,
+	items: Array<Pick<RawElement, "rawId" | "rect">>,
+): { mode: string; gap: number } | string {
+	const { direction, justifyContent, alignItems, gap } = container;
+	if (direction !== "row" && direction !== "column") {
+		return `flex-direction: ${direction} has no LayoutMode equivalent`;
+	}
+	const vertical = direction === "column";
+	let justify: "start" | "center" | "end";
+	if (["normal", "flex-start", "start", "left"].includes(justifyContent)) justify = "start";
+	else if (justifyContent === "center") justify = "center";
+	else if (["flex-end", "end", "right"].includes(justifyContent)) justify = "end";
+	else return `justify-content: ${justifyContent} has no LayoutMode equivalent`;
+
+	const crossCentered = justify === "center" && alignItems === "center";
+	let mode: string;
+	if (crossCentered) mode = vertical ? "MiddleCenter" : "CenterMiddle";
+	else if (vertical) mode = justify === "start" ? "Top" : justify === "center" ? "Middle" : "Bottom";
+	else mode = justify === "start" ? "Left" : justify === "center" ? "Center" : "Right";
+
+	const insetStart = (side: "top" | "left") => owner.padding[side] + owner.border[side];
+	const insetEnd = (side: "bottom" | "right") => owner.padding[side] + owner.border[side];
+	const mainStart = vertical ? owner.rect.y + insetStart("top") : owner.rect.x + insetStart("left");
+	const mainLength = vertical
+		? owner.rect.height - insetStart("top") - insetEnd("bottom")
+		: owner.rect.width - insetStart("left") - insetEnd("right");
+	const crossStart = vertical ? owner.rect.x + insetStart("left") : owner.rect.y + insetStart("top");
+	const crossLength = vertical
+		? owner.rect.width - insetStart("left") - insetEnd("right")
+		: owner.rect.height - insetStart("top") - insetEnd("bottom");
+
+	const mainSize = (item: (typeof items)[number]) => (vertical ? item.rect.height : item.rect.width);
+	const crossSize = (item: (typeof items)[number]) => (vertical ? item.rect.width : item.rect.height);
+	const total = items.reduce((sum, item) => sum + mainSize(item), 0) + gap * (items.length - 1);
+	let position =
+		justify === "start"
+			? mainStart
+			: justify === "center"
+				? mainStart + (mainLength - total) / 2
+				: mainStart + mainLength - total;
+	for (const item of items) {
+		const expectedCross = crossCentered ? crossStart + (crossLength - crossSize(item)) / 2 : crossStart;
+		const actualMain = vertical ? item.rect.y : item.rect.x;
+		const actualCross = vertical ? item.rect.x : item.rect.y;
+		if (!nearlyEqual(actualMain, position) || !nearlyEqual(actualCross, expectedCross)) {
+			return `${mode} layout does not reproduce the rendered position of ${item.rawId}`;
+		}
+		position += mainSize(item) + gap;
+	}
+	return { mode, gap };
+}
@@ -3,7 +3,7 @@ import path from "node:path";
 import postcss from "postcss";
 import tailwindcss from "tailwindcss";
 
-import type { GeneratedElement, LabelStyle, Viewport } from "./types.js";
+import type { GeneratedElement, LabelSpan, LabelStyle, UiBackground, Viewport } from "./types.js";
 import { escapeHtml, uiColorToCss } from "./utils.js";
 
 export function injectStyle(html: string, css: string, baseHref: string): string {
@@ -35,13 +35,36 @@ export async function compileTailwind(configPath: string, inputDir: string): Pro
 	}
 }
 
+function contentPaddingToCss(element: GeneratedElement): string {
+	const { padding, border } = element;
+	return (
+		`padding:${padding.top + border.top}px ${padding.right + border.right}px ` +
+		`${padding.bottom + border.bottom}px ${padding.left + border.left}px`
+	);
+}
+
+function formatPercent(fraction: number): string {
+	return `${Math.round(fraction * 10000) / 100}%`;
+}
+
+function textSpanToHtml(span: LabelSpan): string {
+	const parts: string[] = [];
+	if (span.bold !== undefined) parts.push(`font-weight:${span.bold ? 700 : 400}`);
+	if (span.italic !== undefined) parts.push(`font-style:${span.italic ? "italic" : "normal"}`);
+	if (span.underline !== undefined) parts.push(`text-decoration:${span.underline ? "underline" : "none"}`);
+	if (span.color) parts.push(`color:${uiColorToCss(span.color)}`);
+	const text = escapeHtml(span.text).replace(/\n/g, "<br>");
+	return parts.length > 0 ? `<span style="${parts.join("; ")}">${text}</span>` : text;
+}
+
 export function buildPreviewHtml(params: {
 	pageName: string;
 	viewport: Viewport;
 	elements: GeneratedElement[];
 	outputPath: string;
+	previewFonts: Record<string, string>;
 }): string {
-	const { pageName, viewport, elements, outputPath } = params;
+	const { pageName, viewport, elements, outputPath, previewFonts } = params;
 	const baseDir = path.dirname(outputPath);
 	const toRelative = (filePath: string) => path.relative(baseDir, filePath).split(path.sep).join("/");
 	const labelStyleToCss = (style: LabelStyle | null) => {
@@ -62,11 +85,47 @@ export function buildPreviewHtml(params: {
 		} else {
 			parts.push("white-space:nowrap");
 		}
-		if (style.fontName) parts.push(`font-family:${style.fontName}`);
+		if (style.fontName) parts.push(`font-family:${escapeHtml(previewFonts[style.fontName] ?? style.fontName)}`);
+		if (style.outlineColor)
+			parts.push(`-webkit-text-stroke:1px ${uiColorToCss(style.outlineColor)}; paint-order:stroke fill`);
 		return parts.join("; ");
 	};
+	const stateBackground = (element: GeneratedElement, state: string): UiBackground | undefined => {
+		if (state === "selected") return element.selectedTexture;
+		if (state === "focus") return element.focusTexture;
+		return element.textures[state];
+	};
+	const patchToCss = (background: Extract<UiBackground, { kind: "patch" }>, relative: string) => {
+		const sliceX = background.horizontalBorder * background.scale;
+		const sliceY = background.verticalBorder * background.scale;
+		return (
+			`border-image: url('${relative}') ${sliceY} ${sliceX} fill / ` +
+			`${background.verticalBorder}px ${background.horizontalBorder}px stretch;`
+		);
+	};
 	const lines: string[] = [];
 	const indent = (level: number) => " ".repeat(level * 2);
+	const appendStateLayer = (
+		element: GeneratedElement,
+		state: string,
+		background: UiBackground | undefined,
+		filePath: string | undefined,
+	) => {
+		if (background?.kind === "color") {
+			const color = uiColorToCss(background.color);
+			lines.push(`${indent(4)}<div class="state state-fill ${state}" style="background:${color};"></div>`);
+			return;
+		}
+		if (!filePath) return;
+		const relative = toRelative(filePath);
+		if (background?.kind === "patch") {
+			lines.push(
+				`${indent(4)}<div class="state state-fill ${state}" style="${patchToCss(background, relative)}"></div>`,
+			);
+			return;
+		}
+		lines.push(`${indent(4)}<img class="state ${state}" src="${relative}" alt="${element.id}-${state}" />`);
+	};
 
 	lines.push("<!DOCTYPE html>");
 	lines.push('<html lang="en">');
@@ -106,6 +165,40 @@ export function buildPreviewHtml(params: {
 	lines.push(`${indent(4)}user-select: none;`);
 	lines.push(`${indent(4)}pointer-events: none;`);
 	lines.push(`${indent(3)}}`);
+	lines.push(`${indent(3)}.hy-el .state-fill {`);
+	lines.push(`${indent(4)}position: absolute;`);
+	lines.push(`${indent(4)}inset: 0;`);
+	lines.push(`${indent(4)}pointer-events: none;`);
+	lines.push(`${indent(3)}}`);
+	lines.push(`${indent(3)}.hy-field {`);
+	lines.push(`${indent(4)}position: absolute;`);
+	lines.push(`${indent(4)}inset: 0;`);
+	lines.push(`${indent(4)}box-sizing: border-box;`);
+	lines.push(`${indent(4)}background: transparent;`);
+	lines.push(`${indent(4)}border: none;`);
+	lines.push(`${indent(4)}outline: none;`);
+	lines.push(`${indent(4)}resize: none;`);
+	lines.push(`${indent(4)}appearance: none;`);
+	lines.push(`${indent(3)}}`);
+	lines.push(`${indent(3)}.hy-field::placeholder { color: var(--placeholder-color, #888888); }`);
+	lines.push(`${indent(3)}.hy-el[hidden] { display: none !important; }`);
+	lines.push(`${indent(3)}.hy-asset {`);
+	lines.push(`${indent(4)}display: flex;`);
+	lines.push(`${indent(4)}align-items: center;`);
+	lines.push(`${indent(4)}justify-content: center;`);
+	lines.push(`${indent(4)}box-sizing: border-box;`);
+	lines.push(`${indent(4)}border: 1px dashed rgba(255, 255, 255, 0.5);`);
+	lines.push(`${indent(4)}background: repeating-linear-gradient(45deg, #ffffff14 0 6px, transparent 6px 12px);`);
+	lines.push(`${indent(4)}color: rgba(255, 255, 255, 0.7);`);
+	lines.push(`${indent(4)}font: 10px sans-serif;`);
+	lines.push(`${indent(4)}overflow: hidden;`);
+	lines.push(`${indent(4)}white-space: nowrap;`);
+	lines.push(`${indent(3)}}`);
+	lines.push(`${indent(3)}.hy-toggle-face { position: absolute; inset: 0; }`);
+	lines.push(
+		`${indent(3)}.hy-el[data-checked="true"] .hy-toggle-face.unchecked, ` +
+			`.hy-el[data-checked="false"] .hy-toggle-face.checked { display: none; }`,
+	);
 	lines.push(`${indent(3)}.hy-el .state { opacity: 0; }`);
 	lines.push(`${indent(3)}.hy-el .state.default { opacity: 1; }`);
 	lines.push(`${indent(3)}.hy-button { cursor: pointer; }`);
@@ -121,16 +214,48 @@ export function buildPreviewHtml(params: {
 	lines.push(`${indent(3)}.hy-el[data-disabled="true"] .state.disabled { opacity: 1; }`);
 	lines.push(`${indent(3)}.hy-el[data-selected="true"] .state.selected { opacity: 1; }`);
 	lines.push(`${indent(3)}.hy-el[data-focus="true"] .state.focus { opacity: 1; }`);
+	lines.push(`${indent(3)}.hy-el[data-custom-state="true"] .state.default { opacity: 0; }`);
+	lines.push(`${indent(3)}.hy-el .state.custom-active { opacity: 1; }`);
 	lines.push(`${indent(2)}</style>`);
 	lines.push(`${indent(1)}</head>`);
 	lines.push(`${indent(1)}<body>`);
 	lines.push(`${indent(2)}<div id="root">`);
 
+	// Elements inside tab panels are tagged with their panel; inactive panels start hidden
+	const tabGroupOf = new Map<GeneratedElement, string>();
+	const panelOf = new Map<GeneratedElement, string>();
+	const inactivePanels = new Set<string>();
+	const markPanel = (element: GeneratedElement, panelId: string) => {
+		panelOf.set(element, panelId);
+		for (const child of element.children) markPanel(child, panelId);
+	};
+	for (const element of elements) {
+		if (element.isTabs) {
+			for (const child of element.children) {
+				if (child.tab) tabGroupOf.set(child, element.id);
+			}
+		}
+		const panelId = element.tab?.panelId;
+		if (!panelId) continue;
+		if (!element.tab?.active) inactivePanels.add(panelId);
+		const panel = elements.find(candidate => candidate.id === panelId);
+		if (panel) markPanel(panel, panelId);
+	}
+	const panelAttrs = (element: GeneratedElement): string[] => {
+		const panelId = panelOf.get(element);
+		if (!panelId) return [];
+		return inactivePanels.has(panelId) ? [`data-in-panel="${panelId}"`, "hidden"] : [`data-in-panel="${panelId}"`];
+	};
+
 	const stateOrder = ["default", "hover", "pressed", "disabled", "selected", "focus"];
 	for (const element of elements) {
 		const { x, y, width, height } = element.rect;
 		const attrs: string[] = [];
-		const classes = ["hy-el", element.isButton ? "hy-button" : null, element.isLabel ? "hy-label" : null]
+		const classes = [
+			"hy-el",
+			element.isButton || element.toggle ? "hy-button" : null,
+			element.isLabel ? "hy-label" : null,
+		]
 			.filter(Boolean)
 			.join(" ");
 		const baseStyle = `left:${x}px; top:${y}px; width:${width}px; height:${height}px;`;
@@ -138,33 +263,161 @@ export function buildPreviewHtml(params: {
 		if (element.isLabel) {
 			const labelText = element.text ?? element.textBinding ?? "";
 			const labelStyle = labelStyleToCss(element.labelStyle);
+			const content = element.textSpans
+				? `<span>${element.textSpans.map(textSpanToHtml).join("")}</span>`
+				: escapeHtml(labelText);
 			attrs.push(`class="${classes}"`);
 			attrs.push(`style="${baseStyle} ${labelStyle}"`);
-			lines.push(`${indent(3)}<div ${attrs.join(" ")}>${escapeHtml(labelText)}</div>`);
+			attrs.push(...panelAttrs(element));
+			lines.push(`${indent(3)}<div ${attrs.join(" ")}>${content}</div>`);
+			continue;
+		}
+
+		if (element.asset) {
+			// Game assets aren't available to the preview, so they're shown as a labelled placeholder
+			const assetName = element.asset.path?.split("/").pop() ?? element.asset.kind;
+			attrs.push(`class="${classes} hy-asset"`);
+			attrs.push(`style="${baseStyle}"`);
+			attrs.push(`title="${escapeHtml(element.asset.path ?? element.asset.kind)}"`);
+			attrs.push(...panelAttrs(element));
+			lines.push(`${indent(3)}<div ${attrs.join(" ")}>${escapeHtml(assetName)}</div>`);
 			continue;
 		}
 
 		attrs.push(`class="${classes}"`);
 		attrs.push(`style="${baseStyle}"`);
-		if (element.files.hover) attrs.push('data-has-hover="true"');
-		if (element.files.pressed) attrs.push('data-has-pressed="true"');
-		if (element.files.disabled) attrs.push('data-has-disabled="true"');
+		if (element.textures.hover) attrs.push('data-has-hover="true"');
+		if (element.textures.pressed) attrs.push('data-has-pressed="true"');
+		if (element.textures.disabled) attrs.push('data-has-disabled="true"');
 		const isDisabled = element.disabled || element.dataState === "disabled";
 		if (isDisabled) attrs.push('data-disabled="true"');
 		if (element.dataState === "selected") attrs.push('data-selected="true"');
 		if (element.dataState === "focus") attrs.push('data-focus="true"');
+		if (element.customStates.some(variant => variant.name === element.dataState)) {
+			attrs.push('data-custom-state="true"');
+		}
+
+		// Toggles and tabs have a second face (checked / active) shown through data-checked
+		const secondFace = element.toggle
+			? { shown: element.toggle.checked, textures: element.toggle.checkedTextures, fileKey: "checked" }
+			: element.tab
+				? { shown: element.tab.active, textures: element.tab.activeTextures, fileKey: "active" }
+				: null;
+		if (secondFace) attrs.push(`data-checked="${secondFace.shown}"`);
+		if (element.toggle) {
+			attrs.push(`onclick="this.dataset.checked = String(this.dataset.checked !== 'true')"`);
+		}
+		const tabGroup = tabGroupOf.get(element);
+		if (tabGroup && element.tab) {
+			attrs.push(`data-tab-group="${tabGroup}"`);
+			if (element.tab.panelId) attrs.push(`data-tab-panel="${element.tab.panelId}"`);
+		}
+		attrs.push(...panelAttrs(element));
 
 		lines.push(`${indent(3)}<div ${attrs.join(" ")}>`);
-		for (const state of stateOrder) {
-			const filePath = element.files[state];
-			if (!filePath) continue;
-			const relative = toRelative(filePath);
-			lines.push(`${indent(4)}<img class="state ${state}" src="${relative}" alt="${element.id}-${state}" />`);
+		if (secondFace) {
+			lines.push(`${indent(4)}<div class="hy-toggle-face unchecked">`);
+			for (const state of stateOrder) {
+				appendStateLayer(element, state, stateBackground(element, state), element.files[state]);
+			}
+			lines.push(`${indent(4)}</div>`);
+			lines.push(`${indent(4)}<div class="hy-toggle-face checked">`);
+			for (const state of stateOrder) {
+				const fileKey = state === "default" ? secondFace.fileKey : `${secondFace.fileKey}:${state}`;
+				appendStateLayer(element, state, secondFace.textures[state], element.files[fileKey]);
+			}
+			lines.push(`${indent(4)}</div>`);
+		} else if (element.item?.previewFile || element.repeat?.previewFile) {
+			// Item placeholders and lists of repeated rows show the mock content from the source page
+			const relative = toRelative((element.item?.previewFile ?? element.repeat?.previewFile)!);
+			lines.push(`${indent(4)}<img class="state default" src="${relative}" alt="${element.id}-mock" />`);
+		} else {
+			for (const state of stateOrder) {
+				appendStateLayer(element, state, stateBackground(element, state), element.files[state]);
+			}
+		}
+		if (element.range) {
+			const { range } = element;
+			const span = range.max - range.min;
+			const fraction = span > 0 ? Math.min(1, Math.max(0, (range.value - range.min) / span)) : 0;
+			const percent = formatPercent(fraction);
+			if (element.files.fill) {
+				const fillClip =
+					range.kind === "CircularProgressBar"
+						? `mask-image: conic-gradient(#000 ${percent}, transparent 0)`
+						: `clip-path: inset(0 ${formatPercent(1 - fraction)} 0 0)`;
+				lines.push(
+					`${indent(4)}<img class="hy-range-fill" src="${toRelative(element.files.fill)}" style="${fillClip}" alt="${element.id}-fill" />`,
+				);
+			}
+			if (range.handle && element.files.handle) {
+				const { width: handleWidth, height: handleHeight } = range.handle;
+				const handleStyle =
+					`left:calc((100% - ${handleWidth}px) * ${fraction}); top:calc(50% - ${handleHeight / 2}px); ` +
+					`width:${handleWidth}px; height:${handleHeight}px`;
+				lines.push(
+					`${indent(4)}<img class="hy-range-handle" src="${toRelative(element.files.handle)}" style="${handleStyle}" alt="${element.id}-handle" />`,
+				);
+			}
+		}
+		if (element.textField) {
+			const { textField } = element;
+			const fieldStyle = [
+				contentPaddingToCss(element),
+				labelStyleToCss(element.labelStyle),
+				textField.placeholderColor ? `--placeholder-color:${uiColorToCss(textField.placeholderColor)}` : "",
+			]
+				.filter(Boolean)
+				.join("; ");
+			const fieldAttrs = [`class="hy-field"`, `style="${fieldStyle}"`];
+			if (textField.placeholder !== null) fieldAttrs.push(`placeholder="${escapeHtml(textField.placeholder)}"`);
+			if (textField.maxLength !== null) fieldAttrs.push(`maxlength="${textField.maxLength}"`);
+			const value = escapeHtml(textField.value ?? "");
+			if (textField.kind === "MultilineTextField") {
+				lines.push(`${indent(4)}<textarea ${fieldAttrs.join(" ")}>${value}</textarea>`);
+			} else {
+				const type = textField.password ? "password" : "text";
+				lines.push(`${indent(4)}<input type="${type}" ${fieldAttrs.join(" ")} value="${value}" />`);
+			}
+		}
+		if (element.dropdown) {
+			const fieldStyle = `${contentPaddingToCss(element)}; ${labelStyleToCss(element.labelStyle)}`;
+			lines.push(`${indent(4)}<select class="hy-field" style="${fieldStyle}">`);
+			for (const entry of element.dropdown.entries) {
+				const entryAttrs = [`value="${escapeHtml(entry.value)}"`];
+				if (entry.selected) entryAttrs.push("selected");
+				if (entry.disabled) entryAttrs.push("disabled");
+				lines.push(`${indent(5)}<option ${entryAttrs.join(" ")}>${escapeHtml(entry.label)}</option>`);
+			}
+			lines.push(`${indent(4)}</select>`);
+		}
+		for (const variant of element.customStates) {
+			const active = variant.name === element.dataState ? " custom-active" : "";
+			const className = `custom-${variant.name}${active}`;
+			appendStateLayer(element, className, variant.textures.default, element.files[variant.name]);
 		}
 		lines.push(`${indent(3)}</div>`);
 	}
 
 	lines.push(`${indent(2)}</div>`);
+	if (tabGroupOf.size > 0) {
+		lines.push(`${indent(2)}<script>`);
+		lines.push(`${indent(3)}document.querySelectorAll("[data-tab-group]").forEach(tab => {`);
+		lines.push(`${indent(4)}tab.addEventListener("click", () => {`);
+		lines.push(
+			`${indent(5)}document.querySelectorAll(\`[data-tab-group="\${tab.dataset.tabGroup}"]\`).forEach(other => {`,
+		);
+		lines.push(`${indent(6)}other.dataset.checked = String(other === tab);`);
+		lines.push(
+			`${indent(6)}document.querySelectorAll(\`[data-in-panel="\${other.dataset.tabPanel}"]\`).forEach(member => {`,
+		);
+		lines.push(`${indent(7)}member.hidden = other !== tab;`);
+		lines.push(`${indent(6)}});`);
+		lines.push(`${indent(5)}});`);
+		lines.push(`${indent(4)}});`);
+		lines.push(`${indent(3)}});`);
+		lines.push(`${indent(2)}</script>`);
+	}
 	lines.push(`${indent(1)}</body>`);
 	lines.push("</html>");
 	lines.push("");
@@ -0,0 +1,65 @@
+import { promises as fsp } from "node:fs";
+import path from "node:path";
+
+import { exists, pageLangFileName, writeFileSafe } from "./utils.js";
+
+export type LangEntries = Record<string, string>;
+
+/**
+ * Source-language strings of one page. They are kept next to the page hash so that pages
+ * skipped by `--check` still contribute to the merged language file.
+ */
+export async function writePageLangEntries(params: {
+	uiOutputDir: string;
+	htmlPath: string;
+	entries: LangEntries;
+}): Promise<void> {
+	const { uiOutputDir, htmlPath, entries } = params;
+	const filePath = path.join(uiOutputDir, pageLangFileName(htmlPath));
+	await fsp.writeFile(filePath, `${JSON.stringify(entries, null, 2)}\n`, "utf8");
+}
+
+function escapeLangValue(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+export function buildLangFile(entries: LangEntries): string {
+	const keys = Object.keys(entries).sort((a, b) => a.localeCompare(b));
+	return `${keys.map(key => `${key} = ${escapeLangValue(entries[key]!)}`).join("\n")}\n`;
+}
+
+/** Merges the strings of every page into one `.lang` file. Returns the number of keys written. */
+export async function writeLangFile(params: {
+	uiOutputDir: string;
+	htmlPaths: string[];
+	outputPath: string;
+}): Promise<number> {
+	const { uiOutputDir, htmlPaths, outputPath } = params;
+	const merged: LangEntries = {};
+	const sourceOf = new Map<string, string>();
+	for (const htmlPath of htmlPaths) {
+		const filePath = path.join(uiOutputDir, pageLangFileName(htmlPath));
+		if (!(await exists(filePath))) continue;
+		const pageName = path.basename(htmlPath, path.extname(htmlPath));
+		const entries = JSON.parse(await fsp.readFile(filePath, "utf8")) as LangEntries;
+		for (const [key, value] of Object.entries(entries)) {
+			const previous = merged[key];
+			if (previous !== undefined && previous !== value) {
+				console.warn(
+					`[ui-html] ${pageName}: i18n key "${key}" already has a different text in ${sourceOf.get(key)}; keeping the first one.`,
+				);
+				continue;
+			}
+			merged[key] = value;
+			sourceOf.set(key, pageName);
+		}
+	}
+
+	const count = Object.keys(merged).length;
+	if (count > 0) {
+		await writeFileSafe(outputPath, Buffer.from(buildLangFile(merged), "utf8"));
+	} else {
+		await fsp.rm(outputPath, { force: true });
+	}
+	return count;
+}
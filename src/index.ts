@@ -6,11 +6,25 @@ import type { Browser } from "puppeteer-core";
 
 import { resolveChromePath } from "./browser.js";
 import { parseArgs } from "./cli.js";
-import { SHARED_TEXTURES_DIR } from "./constants.js";
+import { writeCommonUi } from "./common-ui.js";
+import { loadProjectConfig } from "./config.js";
+import { COMMON_UI_FILE, SHARED_TEXTURES_DIR } from "./constants.js";
 import { compileTailwind } from "./html.js";
+import { writeLangFile } from "./i18n.js";
+import { javaClassName } from "./java.js";
 import { processPage, processStaticPage } from "./page-processor.js";
 import { pruneUnusedSharedTextures, SharedTextureStore } from "./texture-store.js";
-import { collectSharedInputFiles, exists, hashFiles, pageHashFileName, sanitizePathSegment } from "./utils.js";
+import type { PseudoLocaleIssue } from "./types.js";
+import {
+	collectSharedInputFiles,
+	collectSourceTextureFiles,
+	exists,
+	hashFiles,
+	pageHashFileName,
+	pagePseudoLocaleFileName,
+	sanitizePathSegment,
+	sha256Hex,
+} from "./utils.js";
 import { formatValidationIssue, validateUiFile } from "./validator.js";
 
 const listHtmlFiles = async (dir: string): Promise<string[]> =>
@@ -32,13 +46,38 @@ async function main(): Promise<void> {
 		console.log(`[ui-html] No HTML pages found in ${pagesDir} or ${staticPagesDir}. Nothing to generate.`);
 		return;
 	}
+	if (args.outJava) {
+		// Page names that differ only in punctuation or case would overwrite each other's class
+		const pagesByClass = new Map<string, string>();
+		for (const htmlPath of htmlFiles) {
+			const className = javaClassName(path.basename(htmlPath, path.extname(htmlPath)));
+			const other = pagesByClass.get(className.toLowerCase());
+			if (other) {
+				throw new Error(
+					`Pages ${path.basename(other)} and ${path.basename(htmlPath)} both map to the Java class ${className}.`,
+				);
+			}
+			pagesByClass.set(className.toLowerCase(), htmlPath);
+		}
+	}
 	if (!fs.existsSync(tailwindConfigPath)) throw new Error(`Tailwind config missing at ${tailwindConfigPath}`);
 
 	const resourcesRoot = args.outResources;
 	const uiOutputDir = args.outUi;
 	const htmlOutputDir = args.outHtml;
 	const sharedInputFiles = await collectSharedInputFiles(inputDir);
+	const config = await loadProjectConfig(inputDir);
 	const baseHref = new URL(`file://${inputDir}/`).href;
+	// The game loads documents by their path below Common/UI/Custom
+	const customUiDir = path.join(resourcesRoot, "Common", "UI", "Custom");
+	let uiPathPrefix = path.relative(customUiDir, uiOutputDir).split(path.sep).join("/");
+	if (uiPathPrefix.startsWith("..") || path.isAbsolute(uiPathPrefix)) {
+		console.warn(
+			`[ui-html] --out-ui is outside ${customUiDir}; UI paths in event manifests and Java classes assume ${args.namespace}/.`,
+		);
+		uiPathPrefix = args.namespace;
+	}
+	if (uiPathPrefix) uiPathPrefix += "/";
 	const renderOutputDir = path.join(htmlOutputDir, "_render");
 	await Promise.all([fsp.mkdir(uiOutputDir, { recursive: true }), fsp.mkdir(renderOutputDir, { recursive: true })]);
 
@@ -48,9 +87,20 @@ async function main(): Promise<void> {
 	];
 	const dirtyPages: typeof allPages = [];
 	const pageHashes = new Map<string, string>();
+	// Options that change the generated files are part of the hash, so changing one regenerates every page
+	const outputOptions = JSON.stringify({
+		autoI18n: args.autoI18n,
+		outLang: args.outLang,
+		outJava: args.outJava,
+		javaPackage: args.javaPackage,
+		pseudoLocale: args.pseudoLocale,
+		strictPseudoLocale: args.strictPseudoLocale,
+	});
 
 	for (const page of allPages) {
-		const pageHash = await hashFiles([...sharedInputFiles, page.htmlPath]);
+		const sourceTextureFiles = await collectSourceTextureFiles(page.htmlPath, baseHref);
+		const inputHash = await hashFiles([...sharedInputFiles, page.htmlPath, ...sourceTextureFiles]);
+		const pageHash = sha256Hex(inputHash, outputOptions);
 		const hashFile = path.join(uiOutputDir, pageHashFileName(page.htmlPath));
 		pageHashes.set(page.htmlPath, pageHash);
 
@@ -65,8 +115,33 @@ async function main(): Promise<void> {
 		dirtyPages.push(page);
 	}
 
+	// Pseudo-locale results are kept next to the page hash, so pages skipped by --check are reported too
+	const reportPseudoLocale = async (fresh: ReadonlyMap<string, PseudoLocaleIssue[]>): Promise<number> => {
+		let total = 0;
+		for (const htmlPath of htmlFiles) {
+			const storedFile = path.join(uiOutputDir, pagePseudoLocaleFileName(htmlPath));
+			const issues =
+				fresh.get(htmlPath) ??
+				((await exists(storedFile))
+					? (JSON.parse(await fsp.readFile(storedFile, "utf8")) as PseudoLocaleIssue[])
+					: []);
+			if (issues.length === 0) continue;
+			const pageName = path.basename(htmlPath, path.extname(htmlPath));
+			total += issues.length;
+			console.warn(`[ui-html] ${pageName}: ${issues.length} label(s) do not fit pseudo-localized text.`);
+			for (const issue of issues) {
+				console.warn(`[ui-html]   ${issue.id}: ${issue.message}`);
+			}
+		}
+		return total;
+	};
+
 	if (dirtyPages.length === 0) {
 		console.log("[ui-html] all pages up-to-date.");
+		const totalPseudoLocaleIssues = args.pseudoLocale ? await reportPseudoLocale(new Map()) : 0;
+		if (args.strictPseudoLocale && totalPseudoLocaleIssues > 0) {
+			throw new Error(`[ui-html] pseudo-locale check failed with ${totalPseudoLocaleIssues} issue(s).`);
+		}
 		return;
 	}
 
@@ -77,6 +152,8 @@ async function main(): Promise<void> {
 		const pageSlug = sanitizePathSegment(pageName);
 		const pageResourceDir = path.join(resourcesRoot, "Common", "UI", "Custom", args.namespace, pageSlug);
 		await fsp.rm(pageResourceDir, { recursive: true, force: true });
+		// Row documents of data-hy-repeat lists
+		await fsp.rm(path.join(uiOutputDir, pageSlug), { recursive: true, force: true });
 		if (page.isStatic) {
 			const staticPath = path.join(
 				resourcesRoot,
@@ -128,20 +205,28 @@ async function main(): Promise<void> {
 	const dirtyNormal = dirtyPages.filter(p => !p.isStatic).map(p => p.htmlPath);
 	const dirtyStatic = dirtyPages.filter(p => p.isStatic).map(p => p.htmlPath);
 
-	await Promise.all([
-		...dirtyNormal.map(htmlPath =>
-			withBrowser(browser =>
-				processPage({
-					browser,
+	const [pseudoLocaleReports] = await Promise.all([
+		Promise.all(
+			dirtyNormal.map(htmlPath =>
+				withBrowser(async browser => ({
 					htmlPath,
-					css,
-					viewport: args.viewport,
-					textureStore,
-					uiOutputDir,
-					htmlOutputDir,
-					baseHref,
-					renderOutputDir,
-				}),
+					issues: await processPage({
+						browser,
+						htmlPath,
+						css,
+						viewport: args.viewport,
+						textureStore,
+						uiOutputDir,
+						htmlOutputDir,
+						baseHref,
+						renderOutputDir,
+						autoI18n: args.autoI18n,
+						pseudoLocale: args.pseudoLocale,
+						config,
+						uiPathPrefix,
+						java: args.outJava ? { outputDir: args.outJava, packageName: args.javaPackage! } : null,
+					}),
+				})),
 			),
 		),
 		...dirtyStatic.map(htmlPath =>
@@ -163,26 +248,58 @@ async function main(): Promise<void> {
 		),
 	]);
 
+	await Promise.all(
+		pseudoLocaleReports.map(({ htmlPath, issues }) => {
+			const storedFile = path.join(uiOutputDir, pagePseudoLocaleFileName(htmlPath));
+			return args.pseudoLocale
+				? fsp.writeFile(storedFile, `${JSON.stringify(issues, null, 2)}\n`, "utf8")
+				: fsp.rm(storedFile, { force: true });
+		}),
+	);
+
+	// Written before validation, which resolves the pages' references into it
+	const commonUiPath = path.join(uiOutputDir, COMMON_UI_FILE);
+	const sharedStyleCount = await writeCommonUi({ uiOutputDir, htmlPaths: htmlFiles, outputPath: commonUiPath });
+	if (sharedStyleCount > 0) {
+		console.log(`[ui-html] wrote ${sharedStyleCount} shared style(s) to ${commonUiPath}.`);
+	}
+
 	let totalValidationIssues = 0;
 	for (const htmlPath of dirtyNormal) {
 		const pageName = path.basename(htmlPath, path.extname(htmlPath));
 		const pageSlug = sanitizePathSegment(pageName);
 		const uiPath = path.join(uiOutputDir, `${pageSlug}.ui`);
 		if (!(await exists(uiPath))) continue;
+		const rowDocumentDir = path.join(uiOutputDir, pageSlug);
+		const rowDocuments = (await exists(rowDocumentDir))
+			? (await fsp.readdir(rowDocumentDir))
+					.filter(file => file.endsWith(".ui"))
+					.map(file => path.join(rowDocumentDir, file))
+			: [];
 
-		const validation = await validateUiFile(uiPath);
-		if (validation.issues.length === 0) continue;
+		const issues = (await Promise.all([uiPath, ...rowDocuments].map(validateUiFile))).flatMap(
+			validation => validation.issues,
+		);
+		if (issues.length === 0) continue;
 
-		totalValidationIssues += validation.issues.length;
-		console.warn(`[ui-html] ${pageName}: ${validation.issues.length} UI validation issue(s).`);
-		for (const issue of validation.issues) {
+		totalValidationIssues += issues.length;
+		console.warn(`[ui-html] ${pageName}: ${issues.length} UI validation issue(s).`);
+		for (const issue of issues) {
 			console.warn(`[ui-html]   ${formatValidationIssue(issue)}`);
 		}
 	}
 
+	const totalPseudoLocaleIssues = args.pseudoLocale
+		? await reportPseudoLocale(new Map(pseudoLocaleReports.map(({ htmlPath, issues }) => [htmlPath, issues])))
+		: 0;
+
+	// Both reports are printed before either strict flag fails the run
 	if (args.strictValidate && totalValidationIssues > 0) {
 		throw new Error(`[ui-html] strict validation failed with ${totalValidationIssues} issue(s).`);
 	}
+	if (args.strictPseudoLocale && totalPseudoLocaleIssues > 0) {
+		throw new Error(`[ui-html] pseudo-locale check failed with ${totalPseudoLocaleIssues} issue(s).`);
+	}
 
 	await Promise.all(
 		dirtyPages.map(page => {
@@ -192,6 +309,15 @@ async function main(): Promise<void> {
 		}),
 	);
 
+	const langKeys = await writeLangFile({
+		uiOutputDir,
+		htmlPaths: htmlFiles,
+		outputPath: args.outLang,
+	});
+	if (langKeys > 0) {
+		console.log(`[ui-html] wrote ${langKeys} translation key(s) to ${args.outLang}.`);
+	}
+
 	await pruneUnusedSharedTextures({ uiOutputDir, resourcesRoot, namespace: args.namespace });
 }
 
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+
+import { buildJavaClass, collectUiSelectors, javaClassName } from "./java.js";
+
+describe("collectUiSelectors", () => {
+	test("lists elements with an id in document order", () => {
+		const source = [
+			"Group #Root {",
+			"  Label #Title {",
+			'    Text: "Shop";',
+			"  }",
+			"  Group {",
+			"    TextButton #Buy {}",
+			"  }",
+			"}",
+		].join("\n");
+		expect(collectUiSelectors(source)).toEqual([
+			{ selector: "#Root", elementType: "Group" },
+			{ selector: "#Title", elementType: "Label" },
+			{ selector: "#Buy", elementType: "TextButton" },
+		]);
+	});
+
+	test("addresses template members through each instance", () => {
+		const source = [
+			"@CardTemplate = Group {",
+			'  @TitleText = "A";',
+			"  Label #Title {",
+			"    Text: @TitleText;",
+			"  }",
+			"};",
+			"",
+			"Group #Root {",
+			"  @CardTemplate #Card {}",
+			"  @CardTemplate #Card2 {",
+			'    @TitleText = "B";',
+			"  }",
+			"}",
+		].join("\n");
+		expect(collectUiSelectors(source)).toEqual([
+			{ selector: "#Root", elementType: "Group" },
+			{ selector: "#Card", elementType: "Group" },
+			{ selector: "#Card #Title", elementType: "Label" },
+			{ selector: "#Card2", elementType: "Group" },
+			{ selector: "#Card2 #Title", elementType: "Label" },
+		]);
+	});
+});
+
+describe("javaClassName", () => {
+	test("turns page names into Java identifiers", () => {
+		expect(javaClassName("shop-menu")).toBe("ShopMenuUi");
+		expect(javaClassName("404")).toBe("Page404Ui");
+		expect(javaClassName("my_page")).toBe(javaClassName("my-page"));
+	});
+});
+
+describe("buildJavaClass", () => {
+	test("only reserves LIST in row classes", () => {
+		const java = buildJavaClass({
+			packageName: "com.example.ui",
+			className: "ShopUi",
+			sourceName: "shop.html",
+			uiPath: "MyMod/shop.ui",
+			source: ["Group #Root {", "  Group #List {}", "}"].join("\n"),
+			bindings: [],
+			tabPanels: new Map(),
+			rows: [],
+		});
+		expect(java).toContain('public static final String LIST = "#List";');
+		expect(java).not.toContain("LIST_2");
+	});
+});
@@ -0,0 +1,252 @@
+import path from "node:path";
+
+import type { EventBinding } from "./events.js";
+import { toPascalCase, writeFileSafe } from "./utils.js";
+
+export type UiSelector = { selector: string; elementType: string };
+
+export type JavaRowDocument = {
+	name: string;
+	uiPath: string; // relative to Common/UI/Custom
+	list: string;
+	source: string;
+	bindings: EventBinding[];
+};
+
+/** `shop-menu` -> `ShopMenuUi`; names that would start with a digit get a `Page` prefix (`404` -> `Page404Ui`). */
+export function javaClassName(pageName: string): string {
+	const name = toPascalCase(pageName);
+	return /^\d/.test(name) ? `Page${name}Ui` : `${name}Ui`;
+}
+
+// Settable properties exposed as constants, per element type
+const JAVA_PROPERTIES: Readonly<Record<string, string[]>> = {
+	Label: ["Text"],
+	Button: ["Disabled", "Style"],
+	TextButton: ["Disabled", "Style"],
+	TabButton: ["Disabled", "Style"],
+	ItemSlotButton: ["Disabled", "Style"],
+};
+
+/**
+ * Selectors of every element with an id in a generated document, in document order. Elements
+ * inside a template instance are addressed through the instance (`#Card2 #Title`), since they
+ * keep the ids of the template definition.
+ */
+export function collectUiSelectors(source: string): UiSelector[] {
+	const selectors: UiSelector[] = [];
+	const templates = new Map<string, { elementType: string; members: UiSelector[] }>();
+	const stack: Array<{ template: { elementType: string; members: UiSelector[] } | null }> = [];
+	const currentTemplate = () => stack.find(frame => frame.template)?.template ?? null;
+
+	for (const line of source.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (trimmed === "}" || trimmed === "};") {
+			stack.pop();
+			continue;
+		}
+
+		const templateDefinition = trimmed.match(/^@([A-Za-z][A-Za-z0-9_]*) = ([A-Za-z][A-Za-z0-9]*) \{$/);
+		if (templateDefinition) {
+			const template = { elementType: templateDefinition[2]!, members: [] };
+			templates.set(templateDefinition[1]!, template);
+			stack.push({ template });
+			continue;
+		}
+
+		const instance = trimmed.match(/^@([A-Za-z][A-Za-z0-9_]*) #([A-Za-z][A-Za-z0-9_]*) \{(\})?$/);
+		if (instance) {
+			const template = templates.get(instance[1]!);
+			const selector = `#${instance[2]}`;
+			selectors.push({ selector, elementType: template?.elementType ?? "Group" });
+			for (const member of template?.members ?? []) {
+				selectors.push({ selector: `${selector} ${member.selector}`, elementType: member.elementType });
+			}
+			if (!instance[3]) stack.push({ template: null });
+			continue;
+		}
+
+		const element = trimmed.match(/^([A-Za-z][A-Za-z0-9]*)(?: #([A-Za-z][A-Za-z0-9_]*))? \{(\})?$/);
+		if (element) {
+			const template = currentTemplate();
+			if (element[2]) {
+				const selector = { selector: `#${element[2]}`, elementType: element[1]! };
+				(template ? template.members : selectors).push(selector);
+			}
+			if (!element[3]) stack.push({ template: null });
+		}
+	}
+	return selectors;
+}
+
+/** `SurvivalTitle2` -> `SURVIVAL_TITLE2`, `#Card2 #Title` -> `CARD2_TITLE` */
+function toConstantName(selector: string): string {
+	return selector
+		.replace(/#/g, "")
+		.replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+		.replace(/([A-Z])([A-Z][a-z])/g, "$1_$2")
+		.replace(/\s+/g, "_")
+		.toUpperCase();
+}
+
+function escapeJavaString(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function buildConstants(
+	selectors: UiSelector[],
+	indent: string,
+	rootSelector: string | null,
+	tabPanels: ReadonlyMap<string, string> = new Map(),
+): string[] {
+	const lines: string[] = [];
+	// LIST only exists in row classes, where it holds the list container
+	const used = new Set<string>(rootSelector === null ? ["UI_PATH"] : ["UI_PATH", "LIST"]);
+	const push = (name: string, value: string) => {
+		let unique = name;
+		for (let suffix = 2; used.has(unique); suffix += 1) unique = `${name}_${suffix}`;
+		used.add(unique);
+		lines.push(`${indent}public static final String ${unique} = "${escapeJavaString(value)}";`);
+	};
+	for (const entry of selectors) {
+		const { elementType } = entry;
+		const isRoot = entry.selector === rootSelector;
+		// Inside a row, selectors are resolved from the row itself
+		const selector =
+			rootSelector && entry.selector.startsWith(`${rootSelector} `)
+				? entry.selector.slice(rootSelector.length + 1)
+				: entry.selector;
+		const name = toConstantName(selector);
+		if (!isRoot) push(name, selector);
+		// A tab's panel, for Java to show when the tab is selected
+		const panel = tabPanels.get(entry.selector);
+		if (panel) push(`${name}_PANEL`, panel);
+		for (const property of JAVA_PROPERTIES[elementType] ?? []) {
+			// Properties of a row's root are relative to the row itself
+			push(
+				isRoot ? toConstantName(property) : `${name}_${toConstantName(property)}`,
+				`${isRoot ? "" : selector}.${property}`,
+			);
+		}
+	}
+	return lines;
+}
+
+function buildEventData(binding: EventBinding): string {
+	let expression = `EventData.of("Action", "${escapeJavaString(binding.action)}")`;
+	for (const [key, value] of Object.entries(binding.data ?? {})) {
+		expression += `.append("${escapeJavaString(key)}", "${escapeJavaString(value)}")`;
+	}
+	return expression;
+}
+
+/** `bindEvents` body lines; `selectorOf` turns a binding's selector into a Java expression. */
+function buildEventBindings(
+	bindings: EventBinding[],
+	indent: string,
+	selectorOf: (selector: string) => string,
+): string[] {
+	return bindings.map(
+		binding =>
+			`${indent}events.addEventBinding(CustomUIEventBindingType.${binding.event}, ${selectorOf(binding.selector)}, ${buildEventData(binding)});`,
+	);
+}
+
+/**
+ * One class per page: the document path, a constant for every element selector and for the
+ * settable properties of labels and buttons, and a nested class per `data-hy-repeat` row document.
+ * Pages with `data-hy-event` declarations also get `bindEvents` methods registering them.
+ * `tabPanels` maps each tab's selector to the selector of the panel it shows.
+ */
+export function buildJavaClass(params: {
+	packageName: string;
+	className: string;
+	sourceName: string;
+	uiPath: string;
+	source: string;
+	bindings: EventBinding[];
+	tabPanels: ReadonlyMap<string, string>;
+	rows: JavaRowDocument[];
+}): string {
+	const { packageName, className, sourceName, uiPath, source, bindings, tabPanels, rows } = params;
+	const hasEvents = bindings.length > 0 || rows.some(row => row.bindings.length > 0);
+	const lines = [
+		`// Generated by html2hytale from ${sourceName}. Changes are overwritten on the next run.`,
+		`package ${packageName};`,
+		"",
+		...(hasEvents
+			? [
+					"import com.hypixel.hytale.protocol.packets.interface_.CustomUIEventBindingType;",
+					"import com.hypixel.hytale.server.core.ui.builder.EventData;",
+					"import com.hypixel.hytale.server.core.ui.builder.UIEventBuilder;",
+					"",
+				]
+			: []),
+		`public final class ${className} {`,
+		`\tpublic static final String UI_PATH = "${escapeJavaString(uiPath)}";`,
+		"",
+		...buildConstants(collectUiSelectors(source), "\t", null, tabPanels),
+	];
+	if (bindings.length > 0) {
+		lines.push(
+			"",
+			"\t/** Registers the page's `data-hy-event` bindings. */",
+			"\tpublic static void bindEvents(UIEventBuilder events) {",
+			...buildEventBindings(bindings, "\t\t", selector => `"${escapeJavaString(selector)}"`),
+			"\t}",
+		);
+	}
+
+	for (const row of rows) {
+		const rowSelectors = collectUiSelectors(row.source);
+		lines.push(
+			"",
+			`\t/** Rows appended to ${row.list}. */`,
+			`\tpublic static final class ${row.name} {`,
+			`\t\tpublic static final String UI_PATH = "${escapeJavaString(row.uiPath)}";`,
+			`\t\tpublic static final String LIST = "${escapeJavaString(row.list)}";`,
+			"",
+			...buildConstants(rowSelectors, "\t\t", rowSelectors[0]?.selector ?? null),
+			"",
+			`\t\tprivate ${row.name}() {}`,
+			"",
+			"\t\t/** Selector of the row at the given index. */",
+			"\t\tpublic static String at(int index) {",
+			'\t\t\treturn LIST + "[" + index + "]";',
+			"\t\t}",
+			"",
+			"\t\t/** Selector of an element or property inside the row at the given index. */",
+			"\t\tpublic static String at(int index, String selector) {",
+			'\t\t\treturn selector.startsWith(".") ? at(index) + selector : at(index) + " " + selector;',
+			"\t\t}",
+		);
+		if (row.bindings.length > 0) {
+			lines.push(
+				"",
+				"\t\t/** Registers the row's `data-hy-event` bindings for the row at the given index. */",
+				"\t\tpublic static void bindEvents(UIEventBuilder events, int index) {",
+				...buildEventBindings(row.bindings, "\t\t\t", selector =>
+					selector ? `at(index, "${escapeJavaString(selector)}")` : "at(index)",
+				),
+				"\t\t}",
+			);
+		}
+		lines.push("\t}");
+	}
+
+	lines.push("", `\tprivate ${className}() {}`, "}", "");
+	return lines.join("\n");
+}
+
+/** Writes the class under its package directory below `outputDir`. Returns the file path. */
+export async function writeJavaClass(params: {
+	outputDir: string;
+	packageName: string;
+	className: string;
+	contents: string;
+}): Promise<string> {
+	const { outputDir, packageName, className, contents } = params;
+	const filePath = path.join(outputDir, ...packageName.split("."), `${className}.java`);
+	await writeFileSafe(filePath, Buffer.from(contents, "utf8"));
+	return filePath;
+}
@@ -3,13 +3,66 @@ import path from "node:path";
 import { pathToFileURL } from "node:url";
 
 import type * as puppeteer from "puppeteer-core";
-import { captureElementStateBuffer, prepareElement, restoreElement, waitForFonts } from "./browser.js";
-import { FONT_READY_TIMEOUT_MS, HIRES_THRESHOLD } from "./constants.js";
+import {
+	captureDropdownPanelBuffer,
+	captureElementStateBuffer,
+	measurePseudoLocaleOverflow,
+	openPseudoStateSession,
+	prepareElement,
+	restoreElement,
+	waitForFonts,
+} from "./browser.js";
+import { type SharedStyles, writePageSharedStyles } from "./common-ui.js";
+import { resolveFontName } from "./config.js";
+import {
+	COMMON_UI_FILE,
+	FONT_READY_TIMEOUT_MS,
+	HIRES_THRESHOLD,
+	PSEUDO_LOCALE_EXPANSION,
+	PSEUDO_LOCALE_TOLERANCE_PX,
+	UI_EVENT_TYPES,
+} from "./constants.js";
+import { collectEventBindings, type EventManifest, writeEventManifest } from "./events.js";
+import { resolveFlexLayout } from "./flex-layout.js";
 import { buildPreviewHtml, injectStyle } from "./html.js";
-import type { SharedTextureStore } from "./texture-store.js";
-import type { ElementTask, GeneratedElement, RawElement, Viewport } from "./types.js";
-import { buildLabelStyle, buildUiFile, normalizeLayoutMode } from "./ui-generator.js";
-import { computeClip, sanitizeId, sanitizePathSegment, toPascalCase, writeFileSafe } from "./utils.js";
+import { type LangEntries, writePageLangEntries } from "./i18n.js";
+import { buildJavaClass, type JavaRowDocument, javaClassName, writeJavaClass } from "./java.js";
+import { detectNineSlice, detectSolidColor, extractDifference, upscaleNearest } from "./texture-analysis.js";
+import { decodePng, encodePng, type SharedTextureStore } from "./texture-store.js";
+import type {
+	ElementTask,
+	FlexContainer,
+	GeneratedElement,
+	ProjectConfig,
+	PseudoLocaleIssue,
+	RawElement,
+	Rect,
+	UiBackground,
+	Viewport,
+} from "./types.js";
+import {
+	buildLabelStyle,
+	buildRowUiFile,
+	buildScrollbarStyle,
+	buildTextSpans,
+	buildUiFile,
+	findUnsupportedTextEffect,
+	isStyleReference,
+	normalizeLayoutMode,
+} from "./ui-generator.js";
+import {
+	computeClip,
+	exists,
+	hiresTexturePath,
+	isTranslationKey,
+	parseCssColor,
+	parseTextShadow,
+	resolveSourceTexture,
+	sanitizeId,
+	sanitizePathSegment,
+	toPascalCase,
+	writeFileSafe,
+} from "./utils.js";
 
 export function flattenElements(elements: GeneratedElement[]): GeneratedElement[] {
 	const result: GeneratedElement[] = [];
@@ -25,6 +78,175 @@ export function flattenElements(elements: GeneratedElement[]): GeneratedElement[
 	return result;
 }
 
+function toGeneratedElement(raw: RawElement, id: string, clip: Rect): GeneratedElement {
+	const labelStyle = buildLabelStyle(raw.textStyle);
+	return {
+		id,
+		rect: clip,
+		anchorTokens: raw.anchorTokens,
+		padding: raw.padding,
+		border: raw.border,
+		isButton: raw.isButton,
+		textures: {},
+		files: {},
+		dataState: raw.dataState,
+		disabled: raw.disabled,
+		children: [],
+		zIndex: raw.zIndex,
+		order: raw.order,
+		layoutMode: normalizeLayoutMode(raw.layoutMode),
+		flexWeight: raw.flexWeight,
+		isLabel: raw.isLabel,
+		text: raw.text,
+		textBinding: raw.textBinding,
+		i18nKey: raw.i18nKey,
+		labelStyle,
+		textSpans: buildTextSpans(raw.textSpans, labelStyle),
+		hidden: raw.hidden,
+		clipChildren: raw.clipChildren,
+		tooltip: raw.tooltip,
+		outline: raw.outline,
+		hitTestVisible: raw.hitTestVisible,
+		mask: raw.mask,
+		spacing: raw.spacing,
+		margin: raw.margin,
+		customStates: [],
+		toggle: raw.toggle ? { ...raw.toggle, checkedTextures: {} } : null,
+		textField: raw.textField
+			? { ...raw.textField, placeholderColor: parseCssColor(raw.textField.placeholderColor) }
+			: null,
+		range: raw.range ? { ...raw.range, fillTexturePath: null, handle: null } : null,
+		dropdown: raw.dropdown
+			? { ...raw.dropdown, panelBackground: null, entryHeight: Math.round(raw.rect.height) }
+			: null,
+		isTabs: raw.isTabs,
+		tab: raw.tab ? { active: raw.tab.active, panelId: null, activeTextures: {} } : null,
+		item: raw.item
+			? {
+					kind: raw.item.kind,
+					grid: raw.item.grid
+						? {
+								columns: raw.item.grid.columns,
+								rows: raw.item.grid.rows,
+								slotWidth: raw.item.grid.slotWidth,
+								slotHeight: raw.item.grid.slotHeight,
+								spacingX: raw.item.grid.spacingX,
+								spacingY: raw.item.grid.spacingY,
+								slotBackground: null,
+							}
+						: null,
+					previewFile: null,
+				}
+			: null,
+		asset: raw.asset,
+		component: raw.component ? sanitizeId(raw.component) : null,
+		events: raw.events.map(event => ({ ...event, data: raw.eventData })),
+		repeat: raw.repeat ? { name: sanitizeId(raw.repeat.name), rowId: null, previewFile: null } : null,
+		scroll: raw.scroll
+			? {
+					axis: raw.scroll.axis,
+					contentSize: raw.scroll.contentSize,
+					stacked: raw.scroll.stacked,
+					scrollbarStyle: buildScrollbarStyle(raw.scroll),
+				}
+			: null,
+	};
+}
+
+async function registerStateBackground(
+	textureStore: SharedTextureStore,
+	buffer: Buffer,
+	scaleFactor: number,
+): Promise<{ background: UiBackground; filePath: string | null }> {
+	const decoded = decodePng(buffer);
+	const color = detectSolidColor(decoded);
+	if (color) {
+		return { background: { kind: "color", color }, filePath: null };
+	}
+
+	const slice = detectNineSlice(decoded, scaleFactor);
+	if (slice) {
+		const { texturePath, filePath } = await textureStore.register(encodePng(slice.texture));
+		return {
+			background: {
+				kind: "patch",
+				texturePath,
+				horizontalBorder: slice.horizontalBorder / scaleFactor,
+				verticalBorder: slice.verticalBorder / scaleFactor,
+				scale: scaleFactor,
+			},
+			filePath,
+		};
+	}
+
+	const { texturePath, filePath } = await textureStore.register(buffer);
+	return { background: { kind: "texture", texturePath }, filePath };
+}
+
+/**
+ * Loads an author-supplied texture for the shared store, which keeps every texture at 2x.
+ * A `*@2x.png` source (or an `@2x` file next to the 1x one) is used as is, anything else is
+ * treated as 1x and upscaled with nearest neighbour so hand-painted pixels stay sharp.
+ */
+async function loadSourceTexture(value: string, baseHref: string): Promise<Buffer> {
+	const filePath = resolveSourceTexture(value, baseHref);
+	if (!filePath) throw new Error(`data-hy-texture "${value}" is not a local file`);
+	const hiresPath = hiresTexturePath(filePath);
+	if (await exists(hiresPath)) return fsp.readFile(hiresPath);
+	if (!(await exists(filePath))) throw new Error(`data-hy-texture source not found: ${filePath}`);
+	return encodePng(upscaleNearest(decodePng(await fsp.readFile(filePath)), 2));
+}
+
+/**
+ * Renders a range at 0% and 100% with the slider thumb hidden to get the track and the fill,
+ * then isolates the thumb by diffing the 0% render with and without it.
+ */
+async function captureRangeTextures(params: {
+	page: puppeteer.Page;
+	session: puppeteer.CDPSession;
+	handle: puppeteer.ElementHandle<Element>;
+	clip: Rect;
+	textureStore: SharedTextureStore;
+	scaleFactor: number;
+	withHandle: boolean;
+}) {
+	const { textureStore, scaleFactor, withHandle, ...capture } = params;
+	const empty = await captureElementStateBuffer({
+		...capture,
+		state: "default",
+		range: { fraction: 0, hideThumb: true },
+	});
+	const full = await captureElementStateBuffer({
+		...capture,
+		state: "default",
+		range: { fraction: 1, hideThumb: true },
+	});
+	const track = await registerStateBackground(textureStore, empty, scaleFactor);
+	// The fill is referenced by path, so it is always stored as a texture
+	const fill = await textureStore.register(full);
+
+	let thumb: { texturePath: string; filePath: string; width: number; height: number } | null = null;
+	if (withHandle) {
+		const withThumb = await captureElementStateBuffer({
+			...capture,
+			state: "default",
+			range: { fraction: 0, hideThumb: false },
+		});
+		const part = extractDifference(decodePng(withThumb), decodePng(empty));
+		if (part) {
+			const { texturePath, filePath } = await textureStore.register(encodePng(part.texture));
+			thumb = {
+				texturePath,
+				filePath,
+				width: Math.round(part.texture.width / scaleFactor),
+				height: Math.round(part.texture.height / scaleFactor),
+			};
+		}
+	}
+	// A custom bar whose fill ignores --hy-progress renders the same at 0% and 100%
+	return { track, fill, handle: thumb, fillUnchanged: empty.equals(full) };
+}
+
 export async function processStaticPage(params: {
 	page: puppeteer.Page;
 	htmlPath: string;
@@ -58,12 +280,15 @@ export async function processStaticPage(params: {
 
 export async function processElementChunk(params: {
 	page: puppeteer.Page;
+	session: puppeteer.CDPSession;
 	tasks: ElementTask[];
 	textureStore: SharedTextureStore;
 	pageName: string;
 	viewport: Viewport;
+	previewAssetsDir: string;
+	baseHref: string;
 }): Promise<Array<[number, GeneratedElement]>> {
-	const { page, tasks, textureStore, pageName, viewport } = params;
+	const { page, session, tasks, textureStore, pageName, viewport, previewAssetsDir, baseHref } = params;
 	const results: Array<[number, GeneratedElement]> = [];
 
 	for (const { raw, id, clip } of tasks) {
@@ -73,17 +298,53 @@ export async function processElementChunk(params: {
 			continue;
 		}
 
-		const textures: Record<string, string> = {};
+		const textures: Record<string, UiBackground> = {};
 		const files: Record<string, string> = {};
-		let selectedTexture: string | undefined;
-		let focusTexture: string | undefined;
+		let selectedTexture: UiBackground | undefined;
+		let focusTexture: UiBackground | undefined;
+		const customStates: GeneratedElement["customStates"] = [];
+		const checkedTextures: Record<string, UiBackground> = {};
+		let panelBackground: UiBackground | null = null;
+		const activeTextures: Record<string, UiBackground> = {};
+		let rangeTextures: Awaited<ReturnType<typeof captureRangeTextures>> | null = null;
+		let slotBackground: UiBackground | null = null;
+		let previewFile: string | null = null;
 
-		if (!raw.isLabel) {
-			const stateList = ["default"] as string[];
-			if (raw.isButton) {
+		// data-hy-texture: the artist's PNGs are used pixel for pixel instead of a capture
+		let sourceBuffers: Array<[string, Buffer]> | null = null;
+		if (raw.sourceTextures) {
+			try {
+				sourceBuffers = [];
+				for (const [state, value] of Object.entries(raw.sourceTextures)) {
+					sourceBuffers.push([state, await loadSourceTexture(value, baseHref)]);
+				}
+			} catch (error) {
+				console.warn(`[ui-html] ${pageName}: ${id}: ${(error as Error).message}; capturing instead.`);
+				sourceBuffers = null;
+			}
+		}
+
+		if (sourceBuffers) {
+			for (const [state, buffer] of sourceBuffers) {
+				const { texturePath, filePath } = await textureStore.register(buffer);
+				const background: UiBackground = { kind: "texture", texturePath };
+				files[state] = filePath;
+				if (state === "selected") {
+					selectedTexture = background;
+				} else if (state === "focus") {
+					focusTexture = background;
+				} else {
+					textures[state] = background;
+				}
+			}
+		} else if (!raw.isLabel) {
+			// Ranges carry their state in properties; their textures come from captureRangeTextures.
+			// Item icons only exist as a placeholder and are never captured.
+			const stateList = raw.range || raw.item?.kind === "ItemIcon" ? ([] as string[]) : ["default"];
+			if (raw.isButton || raw.toggle || raw.dropdown || raw.item?.kind === "ItemSlotButton") {
 				stateList.push("hover", "pressed");
 			}
-			if (raw.disabled || raw.dataState === "disabled") {
+			if ((raw.disabled || raw.dataState === "disabled") && !raw.range) {
 				stateList.push("disabled");
 			}
 			const hasSelected = raw.dataState === "selected";
@@ -91,62 +352,183 @@ export async function processElementChunk(params: {
 			if (hasSelected) stateList.push("selected");
 			if (hasFocus) stateList.push("focus");
 
-			await prepareElement(page, handle, raw.useBackdrop);
+			// Item slots and grids, and lists of repeated rows, are captured as an empty frame; their content is mock data
+			await prepareElement(page, handle, raw.useBackdrop, raw.item !== null || raw.repeat !== null);
 			const needsHires = raw.hasText || (clip.width <= HIRES_THRESHOLD && clip.height <= HIRES_THRESHOLD);
 			const scaleFactor = needsHires ? 2 : 1;
 			await page.setViewport({ width: viewport.width, height: viewport.height, deviceScaleFactor: scaleFactor });
 			try {
 				await page.evaluate(() => new Promise(requestAnimationFrame));
-				for (const state of stateList) {
-					const buffer = await captureElementStateBuffer({ page, handle, clip, state });
-					const { texturePath, filePath } = await textureStore.register(buffer);
-					files[state] = filePath;
+				if (raw.range) {
+					rangeTextures = await captureRangeTextures({
+						page,
+						session,
+						handle,
+						clip,
+						textureStore,
+						scaleFactor,
+						withHandle: !raw.range.kind.endsWith("ProgressBar"),
+					});
+					if (rangeTextures.fillUnchanged) {
+						console.warn(
+							`[ui-html] ${pageName}: ${id}: the fill looks the same at 0% and 100%; size it with var(--hy-progress).`,
+						);
+					}
+					textures.default = rangeTextures.track.background;
+					if (rangeTextures.track.filePath) files.default = rangeTextures.track.filePath;
+					files.fill = rangeTextures.fill.filePath;
+					if (rangeTextures.handle) files.handle = rangeTextures.handle.filePath;
+				}
+				// Toggles capture every state twice: unchecked into `textures`, checked into `checkedTextures`
+				const captures = stateList.map(state => ({ state, checked: raw.toggle ? false : undefined }));
+				if (raw.toggle) {
+					for (const state of stateList) {
+						if (state !== "selected" && state !== "focus") captures.push({ state, checked: true });
+					}
+				}
+				for (const { state, checked } of captures) {
+					// Tabs are captured inactive here and active below, whatever the source marks as active
+					const dataState = raw.tab && !["disabled", "selected", "focus"].includes(state) ? "inactive" : undefined;
+					const buffer = await captureElementStateBuffer({
+						page,
+						session,
+						handle,
+						clip,
+						state,
+						checked,
+						dataState,
+					});
+					const { background, filePath } = await registerStateBackground(textureStore, buffer, scaleFactor);
+					if (checked) {
+						const fileKey = state === "default" ? "checked" : `checked:${state}`;
+						if (filePath) files[fileKey] = filePath;
+						checkedTextures[state] = background;
+						continue;
+					}
+					if (filePath) files[state] = filePath;
 					if (state === "selected") {
-						selectedTexture = texturePath;
+						selectedTexture = background;
 					} else if (state === "focus") {
-						focusTexture = texturePath;
+						focusTexture = background;
 					} else {
-						textures[state] = texturePath;
+						textures[state] = background;
+					}
+				}
+				if (raw.tab) {
+					for (const state of ["default", "hover", "pressed"]) {
+						const buffer = await captureElementStateBuffer({
+							page,
+							session,
+							handle,
+							clip,
+							state,
+							dataState: "active",
+						});
+						const { background, filePath } = await registerStateBackground(textureStore, buffer, scaleFactor);
+						const fileKey = state === "default" ? "active" : `active:${state}`;
+						if (filePath) files[fileKey] = filePath;
+						activeTextures[state] = background;
+					}
+				}
+				if (raw.dropdown) {
+					const buffer = await captureDropdownPanelBuffer({
+						page,
+						handle,
+						entryCount: Math.max(1, raw.dropdown.entries.length),
+					});
+					if (buffer) {
+						const { background, filePath } = await registerStateBackground(textureStore, buffer, scaleFactor);
+						if (filePath) files.panel = filePath;
+						panelBackground = background;
+					}
+				}
+				// data-hy-states: one texture per custom data-state value (per interaction state for buttons)
+				for (const name of raw.customStates) {
+					const variantTextures: Record<string, UiBackground> = {};
+					const variantStates = raw.isButton ? ["default", "hover", "pressed"] : ["default"];
+					for (const state of variantStates) {
+						const buffer = await captureElementStateBuffer({
+							page,
+							session,
+							handle,
+							clip,
+							state,
+							dataState: name,
+						});
+						const { background, filePath } = await registerStateBackground(textureStore, buffer, scaleFactor);
+						const fileKey = state === "default" ? name : `${name}:${state}`;
+						if (filePath) files[fileKey] = filePath;
+						variantTextures[state] = background;
 					}
+					customStates.push({ name, textures: variantTextures });
+				}
+				const slotRect = raw.item?.grid?.slotRect;
+				const slotHandle = slotRect ? await page.$(`[data-hy-grid-slot="${raw.idx}"]`) : null;
+				const slotClip = slotRect ? computeClip(slotRect, captureBounds(raw, viewport)) : null;
+				if (slotHandle && slotClip) {
+					await restoreElement(page, handle);
+					await prepareElement(page, slotHandle, false, true);
+					const buffer = await captureElementStateBuffer({
+						page,
+						session,
+						handle: slotHandle,
+						clip: slotClip,
+						state: "default",
+					});
+					const { background, filePath } = await registerStateBackground(textureStore, buffer, scaleFactor);
+					if (filePath) files.slot = filePath;
+					slotBackground = background;
 				}
 			} finally {
 				await restoreElement(page, handle);
-				await page.mouse.move(0, 0);
+			}
+
+			if (raw.item || raw.repeat) {
+				// The preview shows the slot or list with its mock content, so that capture stays out of the shared textures
+				await prepareElement(page, handle, raw.useBackdrop);
+				try {
+					const buffer = await captureElementStateBuffer({ page, session, handle, clip, state: "default" });
+					previewFile = path.join(previewAssetsDir, `${id}.png`);
+					await writeFileSafe(previewFile, buffer);
+				} finally {
+					await restoreElement(page, handle);
+				}
 			}
 		}
 
+		const element = toGeneratedElement(raw, id, clip);
 		results.push([
 			raw.idx,
 			{
-				id,
-				rect: clip,
-				anchorTokens: raw.anchorTokens,
-				padding: raw.padding,
-				border: raw.border,
-				isButton: raw.isButton,
+				...element,
 				textures,
 				files,
-				dataState: raw.dataState,
-				disabled: raw.disabled,
 				selectedTexture,
 				focusTexture,
-				children: [],
-				zIndex: raw.zIndex,
-				order: raw.order,
-				layoutMode: normalizeLayoutMode(raw.layoutMode),
-				flexWeight: raw.flexWeight,
-				isLabel: raw.isLabel,
-				text: raw.text,
-				textBinding: raw.textBinding,
-				labelStyle: buildLabelStyle(raw.textStyle),
-				hidden: raw.hidden,
-				clipChildren: raw.clipChildren,
-				tooltip: raw.tooltip,
-				outline: raw.outline,
-				hitTestVisible: raw.hitTestVisible,
-				mask: raw.mask,
-				spacing: raw.spacing,
-				margin: raw.margin,
+				customStates,
+				toggle: element.toggle ? { ...element.toggle, checkedTextures } : null,
+				dropdown: element.dropdown ? { ...element.dropdown, panelBackground } : null,
+				tab: element.tab ? { ...element.tab, activeTextures } : null,
+				item: element.item
+					? {
+							...element.item,
+							grid: element.item.grid ? { ...element.item.grid, slotBackground } : null,
+							previewFile,
+						}
+					: null,
+				repeat: element.repeat ? { ...element.repeat, previewFile } : null,
+				range:
+					element.range && rangeTextures
+						? {
+								...element.range,
+								fillTexturePath: rangeTextures.fill.texturePath,
+								handle: rangeTextures.handle && {
+									texturePath: rangeTextures.handle.texturePath,
+									width: rangeTextures.handle.width,
+									height: rangeTextures.handle.height,
+								},
+							}
+						: element.range,
 			},
 		]);
 	}
@@ -154,6 +536,34 @@ export async function processElementChunk(params: {
 	return results;
 }
 
+// Content of scroll containers may lie below the fold; only clip it at the page origin.
+function captureBounds(raw: RawElement, viewport: Viewport): Viewport {
+	return raw.inScrollContainer ? { width: Number.MAX_SAFE_INTEGER, height: Number.MAX_SAFE_INTEGER } : viewport;
+}
+
+// Loads the render file with the scene blur hidden, which the generated layout leaves out
+async function openRenderPage(
+	browser: puppeteer.Browser,
+	renderUrl: string,
+	viewport: Viewport,
+): Promise<{ page: puppeteer.Page; hasSceneBlur: boolean }> {
+	const page = await browser.newPage();
+	await page.setViewport({ width: viewport.width, height: viewport.height, deviceScaleFactor: 1 });
+	await page.goto(renderUrl, { waitUntil: "domcontentloaded" });
+	await waitForFonts(page, FONT_READY_TIMEOUT_MS);
+
+	const hasSceneBlur = await page.evaluate(
+		() => !!document.querySelector('[data-hy-scene-blur], [data-hy-role="scene-blur"], [data-hy-blur="scene"]'),
+	);
+	if (hasSceneBlur) {
+		await page.addStyleTag({
+			content:
+				'[data-hy-scene-blur], [data-hy-role="scene-blur"], [data-hy-blur="scene"] { display: none !important; }',
+		});
+	}
+	return { page, hasSceneBlur };
+}
+
 export async function processPage(params: {
 	browser: puppeteer.Browser;
 	htmlPath: string;
@@ -164,9 +574,28 @@ export async function processPage(params: {
 	htmlOutputDir: string;
 	baseHref: string;
 	renderOutputDir: string;
-}): Promise<void> {
-	const { browser, htmlPath, css, viewport, textureStore, uiOutputDir, htmlOutputDir, baseHref, renderOutputDir } =
-		params;
+	autoI18n: boolean;
+	pseudoLocale: boolean;
+	config: ProjectConfig;
+	uiPathPrefix: string; // --out-ui below Common/UI/Custom as "<dir>/", how the game loads the documents
+	java: { outputDir: string; packageName: string } | null;
+}): Promise<PseudoLocaleIssue[]> {
+	const {
+		browser,
+		htmlPath,
+		css,
+		viewport,
+		textureStore,
+		uiOutputDir,
+		htmlOutputDir,
+		baseHref,
+		renderOutputDir,
+		autoI18n,
+		pseudoLocale,
+		config,
+		uiPathPrefix,
+		java,
+	} = params;
 	const rawHtml = await fsp.readFile(htmlPath, "utf8");
 	const pageName = path.basename(htmlPath, path.extname(htmlPath));
 	const pageSlug = sanitizePathSegment(pageName);
@@ -177,20 +606,7 @@ export async function processPage(params: {
 	await fsp.writeFile(renderPath, html, "utf8");
 	const renderUrl = pathToFileURL(renderPath).href;
 
-	const page = await browser.newPage();
-	await page.setViewport({ width: viewport.width, height: viewport.height, deviceScaleFactor: 1 });
-	await page.goto(renderUrl, { waitUntil: "domcontentloaded" });
-	await waitForFonts(page, FONT_READY_TIMEOUT_MS);
-
-	const hasSceneBlur = await page.evaluate(
-		() => !!document.querySelector('[data-hy-scene-blur], [data-hy-role="scene-blur"], [data-hy-blur="scene"]'),
-	);
-	if (hasSceneBlur) {
-		await page.addStyleTag({
-			content:
-				'[data-hy-scene-blur], [data-hy-role="scene-blur"], [data-hy-blur="scene"] { display: none !important; }',
-		});
-	}
+	const { page, hasSceneBlur } = await openRenderPage(browser, renderUrl, viewport);
 
 	const rawElements: RawElement[] = await page.evaluate(() => {
 		const results: RawElement[] = [];
@@ -221,6 +637,8 @@ export async function processPage(params: {
 					return "Full";
 				case "topscrolling":
 					return "TopScrolling";
+				case "leftscrolling":
+					return "LeftScrolling";
 				case "leftcenterwrap":
 					return "LeftCenterWrap";
 				case "centermiddle":
@@ -233,8 +651,71 @@ export async function processPage(params: {
 		};
 		let order = 0;
 		let idx = 0;
+		const domElements: Element[] = [];
+		const itemRoles = ["item-grid", "item-slot", "item-slot-button", "item-icon"];
+		const itemRoleSelector = itemRoles.map(itemRole => `[data-hy-role="${itemRole}"]`).join(", ");
+
+		// Reveal inactive tab panels on top of the active one, so every panel is measured and
+		// captured at the place it will occupy.
+		const findTabPanel = (tab: Element) => {
+			const panelId = tab.getAttribute("data-hy-tab-panel") ?? tab.getAttribute("aria-controls");
+			return panelId ? document.getElementById(panelId) : null;
+		};
+		const isActiveTab = (tab: Element) =>
+			tab.getAttribute("data-state") === "active" || tab.getAttribute("aria-selected") === "true";
+		for (const tabs of Array.from(document.querySelectorAll('[data-hy-role="tabs"]'))) {
+			const panels = Array.from(tabs.querySelectorAll('[data-hy-role="tab"]')).flatMap(tab => {
+				const panel = findTabPanel(tab);
+				return panel ? [{ panel, active: isActiveTab(tab) }] : [];
+			});
+			const anchorRect = panels.find(entry => entry.active)?.panel.getBoundingClientRect();
+			for (const { panel, active } of panels) {
+				panel.setAttribute("data-hy-panel-state", active ? "active" : "inactive");
+				if (active || !anchorRect) continue;
+				panel.removeAttribute("hidden");
+				if (window.getComputedStyle(panel).display === "none") panel.style.display = "block";
+				Object.assign(panel.style, {
+					position: "fixed",
+					left: `${anchorRect.left}px`,
+					top: `${anchorRect.top}px`,
+					width: `${anchorRect.width}px`,
+					height: `${anchorRect.height}px`,
+					margin: "0",
+					visibility: "visible",
+				});
+			}
+		}
+
+		// Pin scroll containers to their rendered size and let their content overflow visibly,
+		// so children below the fold keep their layout but can be measured and captured in full.
+		const scrollContainers = elements.flatMap(element => {
+			const computed = window.getComputedStyle(element);
+			// Only content that overflows scrolls; a box it fits into stays a plain group
+			const scrollable = (value: string, contentSize: number, boxSize: number) =>
+				(value === "auto" || value === "scroll") && contentSize > boxSize;
+			const axis = scrollable(computed.overflowY, element.scrollHeight, element.clientHeight)
+				? "y"
+				: scrollable(computed.overflowX, element.scrollWidth, element.clientWidth)
+					? "x"
+					: null;
+			const rect = element.getBoundingClientRect();
+			if (!axis || rect.width <= 0 || rect.height <= 0) return [];
+			const contentSize =
+				axis === "y"
+					? element.scrollHeight - parsePx(computed.paddingTop) - parsePx(computed.paddingBottom)
+					: element.scrollWidth - parsePx(computed.paddingLeft) - parsePx(computed.paddingRight);
+			return [{ element: element as HTMLElement, axis, rect, contentSize }];
+		});
+		for (const { element, axis, rect, contentSize } of scrollContainers) {
+			element.setAttribute("data-hy-scroll", axis);
+			element.setAttribute("data-hy-scroll-size", String(contentSize));
+			element.style.width = `${rect.width}px`;
+			element.style.height = `${rect.height}px`;
+			element.style.flex = "none";
+			element.style.overflow = "visible";
+		}
 
-		for (const element of elements) {
+		for (const [domIndex, element] of elements.entries()) {
 			const tag = element.tagName.toLowerCase();
 			if (tag === "script" || tag === "style" || tag === "head") continue;
 			if (element === document.body || element === document.documentElement) continue;
@@ -246,9 +727,32 @@ export async function processPage(params: {
 
 			const rawId = element.getAttribute("data-hy-id") || element.id || null;
 			if (!rawId) continue;
+			const warnings: string[] = [];
+			// Parts of a custom progress bar belong to its track and fill textures, and the content of
+			// item slots, grids and game assets is mock data for the preview
+			if (
+				element.parentElement?.closest(
+					'[data-hy-role="progress"], [data-hy-role="circular-progress"], ' +
+						'[data-hy-asset], [data-hy-role="asset-image"], [data-hy-role="sprite"]',
+				)
+			) {
+				continue;
+			}
 			const dataState = element.getAttribute("data-state");
 			const disabled = element.hasAttribute("disabled");
 			const role = element.getAttribute("data-hy-role");
+			// The one exception is an item icon in a slot of its own, where Java sets the item
+			const itemOwner = element.parentElement?.closest(itemRoleSelector);
+			if (
+				itemOwner &&
+				!(
+					role === "item-icon" &&
+					["item-slot", "item-slot-button"].includes(itemOwner.getAttribute("data-hy-role")!) &&
+					!itemOwner.parentElement?.closest('[data-hy-role="item-grid"]')
+				)
+			) {
+				continue;
+			}
 			const blurAttr = element.getAttribute("data-hy-blur");
 			const isSceneBlur =
 				element.hasAttribute("data-hy-scene-blur") || role === "scene-blur" || blurAttr === "scene";
@@ -259,13 +763,22 @@ export async function processPage(params: {
 			const flexAttr = element.getAttribute("data-hy-flex");
 			const textAttr = element.getAttribute("data-hy-text");
 			const textBinding = element.getAttribute("data-hy-text-binding");
+			const i18nKey = element.getAttribute("data-hy-i18n") || null;
 			const fontAttr = element.getAttribute("data-hy-font");
 			const skipRender = element.hasAttribute("data-hy-skip-render") || element.hasAttribute("data-hy-backdrop");
 			const useBackdrop = element.hasAttribute("data-hy-use-backdrop");
-			const hidden = element.hasAttribute("data-hy-hidden") || element.getAttribute("data-hy-visible") === "false";
+			const hidden =
+				element.hasAttribute("data-hy-hidden") ||
+				element.getAttribute("data-hy-visible") === "false" ||
+				element.getAttribute("data-hy-panel-state") === "inactive";
 			const bleedAttr = element.getAttribute("data-hy-bleed");
 			const bleed = bleedAttr ? Math.max(0, Math.round(Number.parseFloat(bleedAttr) || 0)) : 0;
 			const isLabel = role === "label" || textAttr !== null || textBinding !== null;
+			if (i18nKey !== null && !isLabel) {
+				warnings.push(
+					'data-hy-i18n only applies to labels (data-hy-role="label", data-hy-text or data-hy-text-binding); ignored',
+				);
+			}
 			const hasText =
 				!isLabel &&
 				(() => {
@@ -284,12 +797,163 @@ export async function processPage(params: {
 					return hasOwnText(element);
 				})();
 			const typeAttr = element.getAttribute("type")?.toLowerCase() || "";
+			const nestedCheckInput =
+				tag === "label"
+					? (element.querySelector('input[type="checkbox"], input[type="radio"]') as HTMLInputElement | null)
+					: null;
+			let toggle: RawElement["toggle"] = null;
+			if (!isLabel) {
+				if (tag === "input" && (typeAttr === "checkbox" || typeAttr === "radio")) {
+					toggle = { kind: "CheckBox", checked: (element as HTMLInputElement).checked };
+				} else if (nestedCheckInput) {
+					toggle = { kind: "LabeledCheckBox", checked: nestedCheckInput.checked };
+				} else if (role === "toggle") {
+					const checked =
+						element.getAttribute("aria-pressed") === "true" || element.getAttribute("aria-checked") === "true";
+					toggle = { kind: "ToggleButton", checked };
+				}
+			}
+			let textField: RawElement["textField"] = null;
+			const isTextInput = tag === "input" && ["", "text", "search", "email", "password", "url"].includes(typeAttr);
+			if (!isLabel && (isTextInput || tag === "textarea")) {
+				const field = element as HTMLInputElement | HTMLTextAreaElement;
+				const kind =
+					tag === "textarea"
+						? "MultilineTextField"
+						: typeAttr === "search" || role === "compact-text-field"
+							? "CompactTextField"
+							: "TextField";
+				textField = {
+					kind,
+					placeholder: field.placeholder || null,
+					placeholderColor: window.getComputedStyle(element, "::placeholder").color,
+					value: field.value || null,
+					maxLength: field.maxLength > 0 ? field.maxLength : null,
+					password: typeAttr === "password",
+				};
+				// Text is emitted as properties, so it is hidden while the field background is captured
+				element.setAttribute("data-hy-hide-text", "");
+			}
+			let dropdown: RawElement["dropdown"] = null;
+			if (!isLabel && tag === "select" && !(element as HTMLSelectElement).multiple) {
+				const entries = Array.from((element as HTMLSelectElement).options).map(option => ({
+					value: option.value,
+					label: option.label || option.text,
+					selected: option.selected,
+					disabled: option.disabled,
+				}));
+				dropdown = { entries };
+				// The selected entry is drawn by the DropdownBox, so the closed box is captured without it
+				element.setAttribute("data-hy-hide-text", "");
+			}
+			let range: RawElement["range"] = null;
+			if (!isLabel && tag === "input" && typeAttr === "range") {
+				const input = element as HTMLInputElement;
+				const min = Number(input.min || 0);
+				const max = Number(input.max || 100);
+				const step = input.step === "any" ? null : Number(input.step || 1);
+				const isFloat = step === null || [min, max, step].some(value => !Number.isInteger(value));
+				const kind = role === "slider-number-field" ? "SliderNumberField" : isFloat ? "FloatSlider" : "Slider";
+				range = { kind, min, max, value: Number(input.value), step };
+			} else if (
+				!isLabel &&
+				(tag === "progress" || tag === "meter" || role === "progress" || role === "circular-progress")
+			) {
+				const kind = role === "circular-progress" ? "CircularProgressBar" : "ProgressBar";
+				if (tag === "progress") {
+					const progress = element as HTMLProgressElement;
+					range = { kind, min: 0, max: progress.max, value: Math.max(0, progress.value), step: null };
+				} else if (tag === "meter") {
+					const meter = element as HTMLMeterElement;
+					range = { kind, min: meter.min, max: meter.max, value: meter.value, step: null };
+				} else {
+					const min = Number(element.getAttribute("aria-valuemin") ?? 0);
+					const max = Number(element.getAttribute("aria-valuemax") ?? 100);
+					range = { kind, min, max, value: Number(element.getAttribute("aria-valuenow") ?? min), step: null };
+				}
+			}
+			const tab = !isLabel && role === "tab" ? { active: isActiveTab(element), panelIdx: null } : null;
+			const assetPath = element.getAttribute("data-hy-asset");
+			const asset: RawElement["asset"] =
+				!isLabel && (assetPath !== null || role === "asset-image" || role === "sprite")
+					? { kind: role === "sprite" ? "Sprite" : "AssetImage", path: assetPath || null }
+					: null;
+			let sourceTextures: RawElement["sourceTextures"] = null;
+			if (element.getAttribute("data-hy-texture")) {
+				if (isLabel || asset || toggle || textField || range || dropdown || tab || itemRoles.includes(role ?? "")) {
+					warnings.push("data-hy-texture is only supported on plain elements and buttons; capturing instead");
+				} else {
+					sourceTextures = {};
+					for (const state of ["default", "hover", "pressed", "disabled", "selected", "focus"]) {
+						const value = element.getAttribute(
+							state === "default" ? "data-hy-texture" : `data-hy-texture-${state}`,
+						);
+						if (value) sourceTextures[state] = value;
+					}
+				}
+			}
+			let item: RawElement["item"] = null;
+			if (role?.startsWith("item-") && !itemRoles.includes(role)) {
+				warnings.push(`unknown data-hy-role "${role}"; expected ${itemRoles.join(", ")}`);
+			} else if (!isLabel && role?.startsWith("item-")) {
+				const kind =
+					role === "item-grid"
+						? "ItemGrid"
+						: role === "item-slot-button" || (role === "item-slot" && tag === "button")
+							? "ItemSlotButton"
+							: role === "item-slot"
+								? "ItemSlot"
+								: "ItemIcon";
+				item = { kind, grid: null };
+				if (kind === "ItemGrid") {
+					const tracks = (value: string) =>
+						value
+							.split(/\s+/)
+							.filter(track => track.endsWith("px"))
+							.map(track => Number.parseFloat(track));
+					const columnTracks = tracks(computed.gridTemplateColumns);
+					const rowTracks = tracks(computed.gridTemplateRows);
+					const slot =
+						element.querySelector('[data-hy-role="item-slot"], [data-hy-role="item-slot-button"]') ??
+						element.firstElementChild;
+					const slotRect = slot?.getBoundingClientRect() ?? null;
+					// The first slot provides the frame drawn behind every grid slot
+					slot?.setAttribute("data-hy-grid-slot", String(idx));
+					const columns = Math.max(1, columnTracks.length);
+					item.grid = {
+						columns,
+						rows: rowTracks.length > 0 ? rowTracks.length : Math.ceil(element.children.length / columns),
+						slotWidth: Math.round(columnTracks[0] ?? slotRect?.width ?? 0),
+						slotHeight: Math.round(rowTracks[0] ?? slotRect?.height ?? 0),
+						spacingX: parsePx(computed.columnGap),
+						spacingY: parsePx(computed.rowGap),
+						slotRect: slotRect
+							? { x: slotRect.x, y: slotRect.y, width: slotRect.width, height: slotRect.height }
+							: null,
+					};
+					if (computed.display !== "grid" && computed.display !== "inline-grid") {
+						warnings.push("item grid is not a CSS grid; columns and slot size are guessed from its children");
+					} else {
+						if (new Set([...columnTracks, ...rowTracks].map(Math.round)).size > 1) {
+							warnings.push("item grid slots are not uniform squares; using the first column width as SlotSize");
+						}
+						if (item.grid.spacingX !== item.grid.spacingY) {
+							warnings.push("item grid column and row gaps differ; using the column gap as SlotSpacing");
+						}
+					}
+				}
+			}
 			const isButton =
 				!isLabel &&
+				!toggle &&
+				!range &&
+				!item &&
+				!asset &&
 				(tag === "button" ||
 					tag === "a" ||
-					(tag === "input" && ["button", "submit", "checkbox", "radio"].includes(typeAttr)) ||
-					role === "button");
+					(tag === "input" && ["button", "submit"].includes(typeAttr)) ||
+					role === "button" ||
+					role === "tab");
 
 			const zIndexValue = Number.parseInt(computed.zIndex || "0", 10);
 			const zIndex = Number.isFinite(zIndexValue) ? zIndexValue : 0;
@@ -314,8 +978,8 @@ export async function processPage(params: {
 				}
 			}
 
-			// Layout mode only from explicit data-hy-layout attribute
-			// (auto-detection from flex removed - causes issues when intermediate elements lack data-hy-id)
+			// Without an explicit data-hy-layout, LayoutMode is inferred from flexbox after all
+			// elements are collected (see inferFlexLayout below).
 
 			let flexWeight: number | null = null;
 			if (flexAttr) {
@@ -356,25 +1020,81 @@ export async function processPage(params: {
 				bottom: parsePx(computed.marginBottom),
 				left: parsePx(computed.marginLeft),
 			};
-			const textStyle = isLabel
-				? {
-						fontSize: parsePx(computed.fontSize),
-						color: computed.color,
-						fontWeight: computed.fontWeight,
-						fontStyle: computed.fontStyle,
-						textTransform: computed.textTransform,
-						textDecoration: computed.textDecoration,
-						letterSpacing: parsePx(computed.letterSpacing),
-						textAlign: computed.textAlign,
-						verticalAlign: element.getAttribute("data-hy-valign") || computed.verticalAlign,
-						whiteSpace: computed.whiteSpace,
-						fontName: fontAttr,
-						maxLines: element.hasAttribute("data-hy-max-lines")
-							? Number.parseInt(element.getAttribute("data-hy-max-lines") || "0", 10) || null
-							: null,
-					}
-				: null;
+			const textStyle =
+				isLabel || textField || dropdown
+					? {
+							fontSize: parsePx(computed.fontSize),
+							color: computed.color,
+							fontWeight: computed.fontWeight,
+							fontStyle: computed.fontStyle,
+							textTransform: computed.textTransform,
+							textDecoration: computed.textDecoration,
+							letterSpacing: parsePx(computed.letterSpacing),
+							textAlign: computed.textAlign,
+							verticalAlign: element.getAttribute("data-hy-valign") || computed.verticalAlign,
+							whiteSpace: computed.whiteSpace,
+							fontFamily: computed.fontFamily,
+							fontName: fontAttr,
+							maxLines: element.hasAttribute("data-hy-max-lines")
+								? Number.parseInt(element.getAttribute("data-hy-max-lines") || "0", 10) || null
+								: null,
+							textStrokeWidth: parsePx(computed.webkitTextStrokeWidth),
+							textStrokeColor: computed.webkitTextStrokeColor,
+							textShadow: computed.textShadow,
+							backgroundClip: computed.webkitBackgroundClip || computed.backgroundClip,
+						}
+					: null;
 			const textContent = isLabel ? (textAttr ?? element.textContent ?? "") : null;
+			// Labels with inline formatting (<b>, <i>, <u>, colored spans) keep one run per format
+			let textSpans: RawElement["textSpans"] = null;
+			if (isLabel && textAttr === null && textBinding === null && element.children.length > 0) {
+				const runs: NonNullable<RawElement["textSpans"]> = [];
+				const isUnderlined = (from: Element) => {
+					for (let current: Element | null = from; current; current = current.parentElement) {
+						if (getComputedStyle(current).textDecorationLine.includes("underline")) return true;
+						if (current === element) break;
+					}
+					return false;
+				};
+				const visit = (node: Node) => {
+					if (node.nodeType === 1) {
+						for (const child of Array.from(node.childNodes)) visit(child);
+						if ((node as Element).tagName !== "BR") return;
+					} else if (node.nodeType !== 3) {
+						return;
+					}
+					const owner = node.nodeType === 3 ? node.parentElement! : (node.parentElement ?? element);
+					const ownerStyle = getComputedStyle(owner);
+					const run = {
+						text: node.nodeType === 3 ? (node.textContent ?? "").replace(/\s+/g, " ") : "\n",
+						fontWeight: ownerStyle.fontWeight,
+						fontStyle: ownerStyle.fontStyle,
+						underline: isUnderlined(owner),
+						color: ownerStyle.color,
+					};
+					const previous = runs[runs.length - 1];
+					if (previous && /[ \n]$/.test(previous.text)) run.text = run.text.replace(/^ /, "");
+					if (!run.text) return;
+					if (
+						previous &&
+						previous.fontWeight === run.fontWeight &&
+						previous.fontStyle === run.fontStyle &&
+						previous.underline === run.underline &&
+						previous.color === run.color
+					) {
+						previous.text += run.text;
+					} else {
+						runs.push(run);
+					}
+				};
+				for (const child of Array.from(element.childNodes)) visit(child);
+				if (runs.length > 0) {
+					runs[0]!.text = runs[0]!.text.trimStart();
+					runs[runs.length - 1]!.text = runs[runs.length - 1]!.text.trimEnd();
+				}
+				const nonEmpty = runs.filter(run => run.text.length > 0);
+				textSpans = nonEmpty.length > 1 ? nonEmpty : null;
+			}
 
 			// New properties: clipChildren, tooltip, outline, hitTestVisible, mask
 			const clipAttr = element.hasAttribute("data-hy-clip");
@@ -384,6 +1104,20 @@ export async function processPage(params: {
 
 			const tooltip = element.getAttribute("data-hy-tooltip");
 
+			const scrollAxis = element.getAttribute("data-hy-scroll");
+			const scroll =
+				scrollAxis === "x" || scrollAxis === "y"
+					? {
+							axis: scrollAxis as "x" | "y",
+							contentSize: Number.parseInt(element.getAttribute("data-hy-scroll-size") || "0", 10) || 0,
+							stacked: false,
+							scrollbarWidth: computed.getPropertyValue("scrollbar-width"),
+							scrollbarColor: computed.getPropertyValue("scrollbar-color"),
+							styleRef: element.getAttribute("data-hy-scrollbar-style"),
+						}
+					: null;
+			const inScrollContainer = element.parentElement?.closest("[data-hy-scroll]") != null;
+
 			let outline: { size: number; color: string } | null = null;
 			const outlineAttr = element.getAttribute("data-hy-outline");
 			if (outlineAttr) {
@@ -406,11 +1140,52 @@ export async function processPage(params: {
 
 			const hitTestVisible = element.hasAttribute("data-hy-hit-test");
 			const mask = element.getAttribute("data-hy-mask");
+			// data-hy-event="Type:action ..." with an optional JSON object of string values in data-hy-event-data
+			const events = (element.getAttribute("data-hy-event") ?? "")
+				.split(/\s+/)
+				.filter(Boolean)
+				.map(entry => {
+					const separator = entry.indexOf(":");
+					return separator === -1
+						? { type: entry, action: "" }
+						: { type: entry.slice(0, separator), action: entry.slice(separator + 1) };
+				});
+			let eventData: Record<string, string> | null = null;
+			const eventDataAttr = element.getAttribute("data-hy-event-data");
+			if (eventDataAttr) {
+				try {
+					const parsed: unknown = JSON.parse(eventDataAttr);
+					if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+						eventData = Object.fromEntries(
+							Object.entries(parsed).map(([key, value]) => [
+								key,
+								typeof value === "string" ? value : JSON.stringify(value),
+							]),
+						);
+					} else {
+						warnings.push("data-hy-event-data must be a JSON object; ignored");
+					}
+				} catch {
+					warnings.push("data-hy-event-data is not valid JSON; ignored");
+				}
+			}
+			// data-hy-repeat marks the row of a list; the container keeps the name, its other children are mock rows
+			const repeatName = element.querySelector(":scope > [data-hy-repeat]")?.getAttribute("data-hy-repeat") || null;
+			const customStates = Array.from(
+				new Set(
+					(element.getAttribute("data-hy-states") ?? "")
+						.split(/[\s,]+/)
+						.map(state => state.replace(/[^A-Za-z0-9_-]/g, ""))
+						.filter(Boolean),
+				),
+			);
 
 			element.setAttribute("data-hy-idx", String(idx));
+			domElements.push(element);
 
 			results.push({
 				idx,
+				domIndex,
 				rawId,
 				tag,
 				dataState,
@@ -428,7 +1203,9 @@ export async function processPage(params: {
 				isLabel,
 				text: textContent ? textContent.trim() : null,
 				textBinding,
+				i18nKey: isLabel ? i18nKey : null,
 				textStyle,
+				textSpans,
 				skipRender,
 				useBackdrop,
 				bleed,
@@ -440,19 +1217,157 @@ export async function processPage(params: {
 				hitTestVisible,
 				mask,
 				spacing,
+				explicitSpacing: spacingAttr !== null,
 				margin,
+				warnings,
+				flex: null,
+				scroll,
+				inScrollContainer,
+				customStates,
+				toggle,
+				textField,
+				range,
+				dropdown,
+				isTabs: role === "tabs",
+				tab,
+				item,
+				asset,
+				component: element.getAttribute("data-hy-component") || null,
+				repeat: repeatName ? { name: repeatName, rowIdx: null } : null,
+				events,
+				eventData,
+				sourceTextures,
 			});
 
 			order += 1;
 			idx += 1;
 		}
 
+		// Describe the flex container of each element's children for LayoutMode inference. Generated
+		// children may sit inside id-less wrappers, so the flex container is resolved from the real DOM.
+		const isFlexContainer = (el: Element) => {
+			const display = window.getComputedStyle(el).display;
+			return display === "flex" || display === "inline-flex";
+		};
+		const nearlyEqual = (a: number, b: number) => Math.abs(a - b) <= 2;
+		const describeFlexContainer = (owner: RawElement, children: RawElement[]): FlexContainer | string | null => {
+			const ownerElement = domElements[owner.idx]!;
+			const items = new Map<Element, RawElement>();
+			let container: Element | null = null;
+			for (const child of children) {
+				let item: Element = domElements[child.idx]!;
+				let parent = item.parentElement;
+				while (parent && parent !== ownerElement && !isFlexContainer(parent)) {
+					item = parent;
+					parent = parent.parentElement;
+				}
+				if (!parent || !isFlexContainer(parent)) return null;
+				if (container && container !== parent) return "children are split across several flex containers";
+				container = parent;
+				const itemRect = item.getBoundingClientRect();
+				if (
+					!nearlyEqual(itemRect.x, child.rect.x) ||
+					!nearlyEqual(itemRect.y, child.rect.y) ||
+					!nearlyEqual(itemRect.width, child.rect.width) ||
+					!nearlyEqual(itemRect.height, child.rect.height)
+				) {
+					return `${child.rawId} is offset inside an id-less wrapper`;
+				}
+				items.set(item, child);
+			}
+			if (!container) return null;
+
+			const flowItems = Array.from(container.children).filter(el => {
+				const style = window.getComputedStyle(el);
+				return style.display !== "none" && style.position !== "absolute" && style.position !== "fixed";
+			});
+			if (flowItems.length !== items.size || flowItems.some(el => !items.has(el))) {
+				return "flex items without data-hy-id or absolutely positioned children take part in the layout";
+			}
+
+			const style = window.getComputedStyle(container);
+			const gap = parsePx(
+				style.flexDirection === "column"
+					? style.getPropertyValue("row-gap") || style.getPropertyValue("gap")
+					: style.getPropertyValue("column-gap") || style.getPropertyValue("gap"),
+			);
+			return {
+				direction: style.flexDirection,
+				justifyContent: style.justifyContent,
+				alignItems: style.alignItems,
+				gap,
+				items: flowItems.map(el => items.get(el)!.idx),
+			};
+		};
+
+		for (const result of results) {
+			if (!result.tab) continue;
+			const panelIdx = findTabPanel(domElements[result.idx]!)?.getAttribute("data-hy-idx");
+			result.tab.panelIdx = panelIdx ? Number(panelIdx) : null;
+		}
+		for (const result of results) {
+			if (!result.repeat) continue;
+			const row = domElements[result.idx]!.querySelector(":scope > [data-hy-repeat]");
+			const rowIdx = row?.getAttribute("data-hy-idx");
+			result.repeat.rowIdx = rowIdx ? Number(rowIdx) : null;
+		}
+
+		const childrenByParent = new Map<number, RawElement[]>();
+		for (const result of results) {
+			if (result.parentIdx === null || result.skipRender) continue;
+			const siblings = childrenByParent.get(result.parentIdx) ?? [];
+			siblings.push(result);
+			childrenByParent.set(result.parentIdx, siblings);
+		}
+		for (const result of results) {
+			if (result.layoutMode !== null || result.isButton || result.isLabel || result.scroll) continue;
+			const element = domElements[result.idx]!;
+			if (element.hasAttribute("data-hy-layout")) continue;
+			if (result.repeat) {
+				// Rows appended at runtime flow like the mock rows: along a flex row, and downwards otherwise
+				const style = window.getComputedStyle(element);
+				const isFlex = style.display === "flex" || style.display === "inline-flex";
+				result.layoutMode = isFlex && style.flexDirection === "row" ? "Left" : "Top";
+				continue;
+			}
+			const children = childrenByParent.get(result.idx);
+			if (!children || children.length === 0) continue;
+			result.flex = describeFlexContainer(result, children);
+		}
+
+		// Scroll containers always scroll; their children are emitted directly when they form a
+		// plain stack along the scroll axis and wrapped in an absolutely laid out content group otherwise.
+		// Without data-hy-layout or rows, the stack is inferred from flexbox like other layouts.
+		for (const result of results) {
+			if (!result.scroll || result.isButton || result.isLabel) continue;
+			const element = domElements[result.idx]!;
+			const vertical = result.scroll.axis === "y";
+			const stackMode = vertical ? "Top" : "Left";
+			if (element.hasAttribute("data-hy-layout")) {
+				result.scroll.stacked = result.layoutMode === stackMode || result.layoutMode === `${stackMode}Scrolling`;
+			} else if (result.repeat) {
+				result.scroll.stacked = true;
+			} else {
+				const children = childrenByParent.get(result.idx) ?? [];
+				result.flex = children.length > 0 ? describeFlexContainer(result, children) : null;
+			}
+			result.layoutMode = vertical ? "TopScrolling" : "LeftScrolling";
+		}
+
 		return results;
 	});
 
+	if (rawElements.some(raw => raw.textField || raw.dropdown)) {
+		await page.addStyleTag({
+			content:
+				"[data-hy-hide-text] { color: transparent !important; -webkit-text-fill-color: transparent !important; caret-color: transparent !important; }\n" +
+				"[data-hy-hide-text]::placeholder { color: transparent !important; -webkit-text-fill-color: transparent !important; }",
+		});
+	}
+
 	if (rawElements.length === 0) {
 		console.log(`[ui-html] ${pageName}: no elements found.`);
-		return;
+		return [];
 	}
 
 	rawElements.sort((a, b) => a.zIndex - b.zIndex || a.order - b.order);
@@ -460,8 +1375,99 @@ export async function processPage(params: {
 	const rawByIdx = new Map(rawElements.map(raw => [raw.idx, raw]));
 	const elementsByIdx = new Map<number, GeneratedElement>();
 
+	// LayoutMode from the flex containers measured in the page; a scroll container's children
+	// are stacked directly when they flow along its scroll axis
+	for (const raw of rawElements) {
+		if (raw.flex === null) continue;
+		const inferred =
+			typeof raw.flex === "string"
+				? raw.flex
+				: resolveFlexLayout(
+						raw,
+						raw.flex,
+						raw.flex.items.map(idx => rawByIdx.get(idx)!),
+					);
+		if (raw.scroll) {
+			if (typeof inferred !== "string" && inferred.mode === (raw.scroll.axis === "y" ? "Top" : "Left")) {
+				raw.scroll.stacked = true;
+				if (!raw.explicitSpacing) raw.spacing = inferred.gap;
+			}
+			continue;
+		}
+		if (typeof inferred === "string") {
+			raw.warnings.push(`${inferred}; falling back to absolute anchors.`);
+			continue;
+		}
+		raw.layoutMode = inferred.mode;
+		if (!raw.explicitSpacing) raw.spacing = inferred.gap;
+	}
+
+	// FontName comes from data-hy-font, or else from the computed font-family through the font mapping
+	for (const raw of rawElements) {
+		if (!raw.textStyle || raw.textStyle.fontName) continue;
+		const { fontName, warning } = resolveFontName(raw.textStyle.fontFamily, config.fonts);
+		if (fontName && fontName !== "Default") raw.textStyle.fontName = fontName;
+		if (warning) raw.warnings.push(warning);
+	}
+
+	// data-hy-scrollbar-style is written into the document as is, so it must be a style reference
+	for (const raw of rawElements) {
+		const styleRef = raw.scroll?.styleRef;
+		if (!styleRef || isStyleReference(styleRef)) continue;
+		const warning = `data-hy-scrollbar-style "${styleRef}" is not a @Name or $Alias.@Name reference; using the CSS scrollbar`;
+		raw.warnings.push(warning);
+		raw.scroll!.styleRef = null;
+	}
+
+	// Event bindings need a known CustomUIEventBindingType and an action name
+	for (const raw of rawElements) {
+		if (raw.events.length === 0) continue;
+		const invalid = raw.events.filter(event => !UI_EVENT_TYPES.has(event.type) || !event.action);
+		if (invalid.length === 0) continue;
+		const warning = invalid
+			.map(event =>
+				UI_EVENT_TYPES.has(event.type)
+					? `data-hy-event "${event.type}" needs an action ("${event.type}:name"); ignored`
+					: `unknown event type "${event.type}" in data-hy-event; ignored`,
+			)
+			.join("; ");
+		raw.warnings.push(warning);
+		raw.events = raw.events.filter(event => !invalid.includes(event));
+	}
+
+	// Labels with effects LabelStyle can't express are captured as textures, text included. Dynamic and
+	// translated text can't be baked into an image, so those labels stay labels without the effect.
+	for (const raw of rawElements) {
+		if (!raw.isLabel || !raw.textStyle) continue;
+		const effect = findUnsupportedTextEffect(raw.textStyle);
+		if (!effect) continue;
+		if (raw.textBinding || raw.i18nKey) {
+			const source = raw.textBinding ? "data-hy-text-binding" : "data-hy-i18n";
+			const warning = `${effect} can't be rendered by a Label and ${source} text can't be rasterized; effect dropped`;
+			raw.warnings.push(warning);
+			continue;
+		}
+		const warning = `${effect} can't be rendered by a Label; rasterized into a texture`;
+		raw.warnings.push(warning);
+		// Shadows and glows reach past the box by their offset plus their blur
+		const shadowExtent = Math.max(
+			0,
+			...parseTextShadow(raw.textStyle.textShadow).map(
+				layer => Math.max(Math.abs(layer.offsetX), Math.abs(layer.offsetY)) + layer.blur,
+			),
+		);
+		raw.bleed = Math.max(raw.bleed, Math.ceil(shadowExtent));
+		raw.isLabel = false;
+		raw.hasText = true;
+		raw.text = null;
+		raw.textSpans = null;
+		raw.i18nKey = null;
+		raw.textStyle = null;
+	}
+
 	// Pre-compute IDs and partition into screenshot tasks vs labels
 	const usedIds = new Map<string, number>();
+	const idByIdx = new Map<number, string>();
 	const screenshotTasks: ElementTask[] = [];
 
 	for (const raw of rawElements) {
@@ -472,6 +1478,11 @@ export async function processPage(params: {
 		const count = usedIds.get(sanitized) ?? 0;
 		const id = count === 0 ? sanitized : `${sanitized}${count + 1}`;
 		usedIds.set(sanitized, count + 1);
+		idByIdx.set(raw.idx, id);
+
+		for (const warning of raw.warnings) {
+			console.warn(`[ui-html] ${pageName}: ${id}: ${warning}`);
+		}
 
 		const bleedRect =
 			raw.bleed > 0
@@ -482,65 +1493,80 @@ export async function processPage(params: {
 						height: raw.rect.height + raw.bleed * 2,
 					}
 				: raw.rect;
-		const clip = computeClip(bleedRect, viewport);
+		const clip = computeClip(bleedRect, captureBounds(raw, viewport));
 		if (!clip) {
 			console.warn(`[ui-html] ${pageName}: skipping ${id} (out of bounds).`);
 			continue;
 		}
 
-		if (raw.isLabel) {
-			// Labels don't need screenshots — add directly
-			elementsByIdx.set(raw.idx, {
-				id,
-				rect: clip,
-				anchorTokens: raw.anchorTokens,
-				padding: raw.padding,
-				border: raw.border,
-				isButton: false,
-				textures: {},
-				files: {},
-				dataState: raw.dataState,
-				disabled: raw.disabled,
-				children: [],
-				zIndex: raw.zIndex,
-				order: raw.order,
-				layoutMode: normalizeLayoutMode(raw.layoutMode),
-				flexWeight: raw.flexWeight,
-				isLabel: true,
-				text: raw.text,
-				textBinding: raw.textBinding,
-				labelStyle: buildLabelStyle(raw.textStyle),
-				hidden: raw.hidden,
-				clipChildren: raw.clipChildren,
-				tooltip: raw.tooltip,
-				outline: raw.outline,
-				hitTestVisible: raw.hitTestVisible,
-				mask: raw.mask,
-				spacing: raw.spacing,
-				margin: raw.margin,
-			});
+		if (raw.isLabel || raw.asset) {
+			// Labels and game asset references don't need screenshots — add directly
+			elementsByIdx.set(raw.idx, toGeneratedElement(raw, id, clip));
 		} else {
 			screenshotTasks.push({ raw, id, clip });
 		}
 	}
 
-	const chunkResults = await processElementChunk({
-		page,
-		tasks: screenshotTasks,
-		textureStore,
-		pageName,
-		viewport,
-	});
+	const session = await openPseudoStateSession(page);
+	let chunkResults: Array<[number, GeneratedElement]>;
+	try {
+		chunkResults = await processElementChunk({
+			page,
+			session,
+			tasks: screenshotTasks,
+			textureStore,
+			pageName,
+			viewport,
+			previewAssetsDir: path.join(htmlOutputDir, "_mock", pageSlug),
+			baseHref,
+		});
+	} finally {
+		await session.detach();
+	}
 
 	await page.close();
 
+	// Pseudo-locale check: every literal label is re-rendered longer and compared to its box, on a
+	// fresh load of the page so the capture's revealed panels, pinned scroll containers and hidden text
+	// don't skew the layout
+	const pseudoLocaleIssues: PseudoLocaleIssue[] = [];
+	if (pseudoLocale) {
+		const labels = rawElements
+			.filter(raw => raw.isLabel && !raw.textBinding && idByIdx.has(raw.idx))
+			.map(raw => ({ idx: raw.idx, domIndex: raw.domIndex }));
+		const { page: measurePage } = await openRenderPage(browser, renderUrl, viewport);
+		const measurements = await measurePseudoLocaleOverflow(measurePage, labels, PSEUDO_LOCALE_EXPANSION).finally(() =>
+			measurePage.close(),
+		);
+		for (const { idx, overflowX, overflowY, linesBefore, linesAfter } of measurements) {
+			const problems: string[] = [];
+			if (overflowX > PSEUDO_LOCALE_TOLERANCE_PX || overflowY > PSEUDO_LOCALE_TOLERANCE_PX) {
+				problems.push(`overflows its box by ${overflowX}x${overflowY}px`);
+			}
+			if (linesAfter !== linesBefore) {
+				problems.push(`wraps onto ${linesAfter} line(s) instead of ${linesBefore}`);
+			}
+			if (problems.length > 0) {
+				pseudoLocaleIssues.push({ id: idByIdx.get(idx)!, message: problems.join(" and ") });
+			}
+		}
+	}
+
 	for (const [idx, element] of chunkResults) {
+		const panelIdx = rawByIdx.get(idx)?.tab?.panelIdx ?? null;
+		if (element.tab && panelIdx !== null) {
+			element.tab.panelId = idByIdx.get(panelIdx) ?? null;
+		}
+		const rowIdx = rawByIdx.get(idx)?.repeat?.rowIdx ?? null;
+		if (element.repeat && rowIdx !== null) {
+			element.repeat.rowId = idByIdx.get(rowIdx) ?? null;
+		}
 		elementsByIdx.set(idx, element);
 	}
 
 	if (elementsByIdx.size === 0) {
 		console.log(`[ui-html] ${pageName}: no renderable elements found.`);
-		return;
+		return [];
 	}
 
 	const roots: GeneratedElement[] = [];
@@ -579,20 +1605,145 @@ export async function processPage(params: {
 
 	const flatElements = flattenElements(roots);
 
+	// data-hy-repeat: the row goes to its own document and its list is emitted empty, for Java to
+	// append rows to. The preview shows the list's capture with the mock rows instead of its children.
+	const rowDocuments: Array<{ name: string; row: GeneratedElement; container: GeneratedElement }> = [];
+	const mockElements = new Set<GeneratedElement>();
+	const usedRowNames = new Map<string, number>();
+	const splitRepeatedRows = (nodes: GeneratedElement[]): void => {
+		for (const node of nodes) {
+			const row = node.repeat ? node.children.find(child => child.id === node.repeat!.rowId) : undefined;
+			if (node.repeat && !row) {
+				console.warn(
+					`[ui-html] ${pageName}: ${node.id}: the data-hy-repeat row needs a data-hy-id or id; emitting the list as is.`,
+				);
+			}
+			if (!node.repeat || !row) {
+				splitRepeatedRows(node.children);
+				continue;
+			}
+			if (node.spacing > 0) {
+				console.warn(
+					`[ui-html] ${pageName}: ${node.id}: the ${node.spacing}px gap between repeated rows is not reproduced for appended rows.`,
+				);
+			}
+			const count = usedRowNames.get(node.repeat.name) ?? 0;
+			usedRowNames.set(node.repeat.name, count + 1);
+			const name = count === 0 ? node.repeat.name : `${node.repeat.name}${count + 1}`;
+			rowDocuments.push({ name, row, container: node });
+			for (const element of flattenElements(node.children)) mockElements.add(element);
+			node.children = [];
+			splitRepeatedRows([row]);
+		}
+	};
+	splitRepeatedRows(roots);
+	const uiElements = [...flattenElements(roots), ...flattenElements(rowDocuments.map(({ row }) => row))];
+
+	// Localized labels reference their key; the source text goes to the language file
+	const langEntries: LangEntries = {};
+	for (const element of uiElements) {
+		if (!element.isLabel || element.textBinding || element.text === null) continue;
+		if (!element.i18nKey && autoI18n) element.i18nKey = `${pageSlug.toLowerCase()}.${element.id}`;
+		if (!element.i18nKey) continue;
+		if (!isTranslationKey(element.i18nKey)) {
+			console.warn(
+				`[ui-html] ${pageName}: ${element.id}: translation key "${element.i18nKey}" may only use letters, digits, "_", "." and "-"; emitting the text instead.`,
+			);
+			element.i18nKey = null;
+			continue;
+		}
+		if (element.textSpans) {
+			console.warn(
+				`[ui-html] ${pageName}: ${element.id}: translated labels are plain text; its mixed formatting (TextSpans) is dropped.`,
+			);
+		}
+		langEntries[element.i18nKey] = element.textSpans?.map(span => span.text).join("") ?? element.text;
+	}
 	await fsp.mkdir(uiOutputDir, { recursive: true });
+	await writePageLangEntries({ uiOutputDir, htmlPath, entries: langEntries });
+
 	const uiPath = path.join(uiOutputDir, `${pageSlug}.ui`);
-	const ui = buildUiFile(roots, viewport, hasSceneBlur);
+	const sharedStyles: SharedStyles = {};
+	const selectors = new Map<GeneratedElement, string>();
+	const ui = buildUiFile(
+		roots,
+		viewport,
+		hasSceneBlur,
+		sharedStyles,
+		message => console.warn(`[ui-html] ${pageName}: ${message}`),
+		selectors,
+	);
 	await fsp.writeFile(uiPath, ui, "utf8");
+	const eventManifest: EventManifest = {
+		page: pageName,
+		uiPath: `${uiPathPrefix}${pageSlug}.ui`,
+		bindings: collectEventBindings(flattenElements(roots), selectors),
+		rows: [],
+	};
+	// Row documents sit in a folder named after the page, one level below Common.ui
+	const javaRows: JavaRowDocument[] = [];
+	for (const { name, row, container } of rowDocuments) {
+		const rowSelectors = new Map<GeneratedElement, string>();
+		const rowUi = buildRowUiFile(
+			row,
+			container,
+			sharedStyles,
+			`../${COMMON_UI_FILE}`,
+			message => console.warn(`[ui-html] ${pageName}: ${name}: ${message}`),
+			rowSelectors,
+		);
+		await writeFileSafe(path.join(uiOutputDir, pageSlug, `${name}.ui`), Buffer.from(rowUi, "utf8"));
+		const rowEvents = {
+			name,
+			uiPath: `${uiPathPrefix}${pageSlug}/${name}.ui`,
+			list: `#${container.id}`,
+			bindings: collectEventBindings(flattenElements([row]), rowSelectors, rowSelectors.get(row) ?? null),
+		};
+		eventManifest.rows.push(rowEvents);
+		javaRows.push({ ...rowEvents, source: rowUi });
+	}
+	await writePageSharedStyles({ uiOutputDir, htmlPath, styles: sharedStyles });
+	await writeEventManifest({ uiOutputDir, htmlPath, manifest: eventManifest });
+
+	if (java) {
+		const className = javaClassName(pageName);
+		const tabPanels = new Map<string, string>();
+		for (const element of flattenElements(roots)) {
+			const panel = element.tab?.panelId
+				? flatElements.find(candidate => candidate.id === element.tab!.panelId)
+				: null;
+			const tabSelector = selectors.get(element);
+			const panelSelector = panel ? selectors.get(panel) : undefined;
+			if (tabSelector && panelSelector) tabPanels.set(tabSelector, panelSelector);
+		}
+		await writeJavaClass({
+			outputDir: java.outputDir,
+			packageName: java.packageName,
+			className,
+			contents: buildJavaClass({
+				packageName: java.packageName,
+				className,
+				sourceName: path.basename(htmlPath),
+				uiPath: eventManifest.uiPath,
+				source: ui,
+				bindings: eventManifest.bindings,
+				tabPanels,
+				rows: javaRows,
+			}),
+		});
+	}
 
 	await fsp.mkdir(htmlOutputDir, { recursive: true });
 	const previewPath = path.join(htmlOutputDir, `${pageSlug}.html`);
 	const previewHtml = buildPreviewHtml({
 		pageName: pageClass,
 		viewport,
-		elements: flatElements,
+		elements: flatElements.filter(element => !mockElements.has(element)),
 		outputPath: previewPath,
+		previewFonts: config.previewFonts,
 	});
 	await fsp.writeFile(previewPath, previewHtml, "utf8");
 
-	console.log(`[ui-html] ${pageName}: generated ${flatElements.length} elements.`);
+	console.log(`[ui-html] ${pageName}: generated ${uiElements.length} elements.`);
+	return pseudoLocaleIssues;
 }
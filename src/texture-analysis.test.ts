@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { PNG } from "pngjs";
+
+import { detectNineSlice, detectSolidColor } from "./texture-analysis.js";
+import type { DecodedPng } from "./types.js";
+
+type Rgba = [number, number, number, number];
+
+const RED: Rgba = [255, 0, 0, 255];
+const WHITE: Rgba = [255, 255, 255, 255];
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => Rgba): DecodedPng => {
+	const png = new PNG({ width, height });
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			png.data.set(pixel(x, y), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data: png.data };
+};
+
+const pixelAt = (decoded: DecodedPng, x: number, y: number) =>
+	Array.from(decoded.data.subarray((y * decoded.width + x) * 4, (y * decoded.width + x + 1) * 4));
+
+describe("detectNineSlice", () => {
+	test("keeps the borders of a frame plus a one-pixel stretch band", () => {
+		const frame = image(12, 12, (x, y) => (x < 2 || x > 9 || y < 2 || y > 9 ? RED : WHITE));
+		const slice = detectNineSlice(frame, 1);
+		expect(slice).toMatchObject({ horizontalBorder: 2, verticalBorder: 2 });
+		expect(slice!.texture.width).toBe(5);
+		expect(slice!.texture.height).toBe(5);
+		expect(pixelAt(slice!.texture, 0, 0)).toEqual(RED);
+		expect(pixelAt(slice!.texture, 2, 2)).toEqual(WHITE);
+		expect(pixelAt(slice!.texture, 4, 4)).toEqual(RED);
+	});
+
+	test("rounds borders up to whole CSS pixels", () => {
+		const frame = image(24, 24, (x, y) => (x < 3 || x > 20 || y < 3 || y > 20 ? RED : WHITE));
+		expect(detectNineSlice(frame, 2)).toMatchObject({
+			horizontalBorder: 4,
+			verticalBorder: 4,
+			texture: { width: 10, height: 10 },
+		});
+	});
+
+	test("leaves textures without a repeating center alone", () => {
+		const checkerboard = image(8, 8, (x, y) => ((x + y) % 2 === 0 ? RED : WHITE));
+		expect(detectNineSlice(checkerboard, 1)).toBeNull();
+	});
+
+	test("leaves frames alone when slicing saves too little", () => {
+		const frame = image(4, 4, (x, y) => (x === 0 || x === 3 || y === 0 || y === 3 ? RED : WHITE));
+		expect(detectNineSlice(frame, 1)).toBeNull();
+	});
+});
+
+describe("detectSolidColor", () => {
+	test("returns the color of a uniform texture", () => {
+		expect(detectSolidColor(image(4, 3, () => [0x33, 0x66, 0x99, 255]))).toBe("#336699");
+	});
+
+	test("writes translucent colors with their alpha", () => {
+		expect(detectSolidColor(image(4, 3, () => [0x33, 0x66, 0x99, 128]))).toBe("#336699(0.502)");
+	});
+
+	test("tolerates tiny channel differences", () => {
+		expect(detectSolidColor(image(4, 3, (x, y) => [0x33 + ((x + y) % 2), 0x66, 0x99, 255]))).toBe("#336699");
+	});
+
+	test("rejects textures with more than one color", () => {
+		expect(detectSolidColor(image(4, 3, (x, y) => (x === 3 && y === 2 ? RED : WHITE)))).toBeNull();
+	});
+});
+
+describe("gradient strips", () => {
+	const shade = (value: number): Rgba => [value, value, value, 255];
+
+	test("collapses a horizontal gradient to a one-pixel-high strip", () => {
+		const gradient = image(10, 6, x => shade(x * 20));
+		const slice = detectNineSlice(gradient, 1);
+		expect(slice).toMatchObject({ horizontalBorder: 0, verticalBorder: 0, texture: { width: 10, height: 1 } });
+		expect(pixelAt(slice!.texture, 9, 0)).toEqual(shade(180));
+	});
+
+	test("collapses a vertical gradient to a one-pixel-wide strip", () => {
+		const gradient = image(6, 10, (_x, y) => shade(y * 20));
+		const slice = detectNineSlice(gradient, 1);
+		expect(slice).toMatchObject({ horizontalBorder: 0, verticalBorder: 0, texture: { width: 1, height: 10 } });
+		expect(pixelAt(slice!.texture, 0, 9)).toEqual(shade(180));
+	});
+
+	test("keeps the strip one CSS pixel thick on hi-res captures", () => {
+		const gradient = image(10, 6, x => shade(x * 20));
+		expect(detectNineSlice(gradient, 2)).toMatchObject({ texture: { width: 10, height: 2 } });
+	});
+
+	test("leaves diagonal gradients alone", () => {
+		expect(
+			detectNineSlice(
+				image(10, 10, (x, y) => shade((x + y) * 10)),
+				1,
+			),
+		).toBeNull();
+	});
+});
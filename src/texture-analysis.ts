@@ -0,0 +1,174 @@
+import { SLICE_CHANNEL_TOLERANCE, SLICE_MAX_AREA_RATIO } from "./constants.js";
+import type { DecodedPng } from "./types.js";
+import { formatAlpha } from "./utils.js";
+
+export type NineSlice = {
+	horizontalBorder: number; // texture pixels kept on the left and right edges
+	verticalBorder: number; // texture pixels kept on the top and bottom edges
+	texture: DecodedPng;
+};
+
+function pixelsMatch(data: Buffer, a: number, b: number): boolean {
+	for (let c = 0; c < 4; c += 1) {
+		if (Math.abs((data[a + c] ?? 0) - (data[b + c] ?? 0)) > SLICE_CHANNEL_TOLERANCE) return false;
+	}
+	return true;
+}
+
+function pixelsMatchAcross(a: Buffer, b: Buffer, offset: number): boolean {
+	for (let c = 0; c < 4; c += 1) {
+		if (Math.abs((a[offset + c] ?? 0) - (b[offset + c] ?? 0)) > SLICE_CHANNEL_TOLERANCE) return false;
+	}
+	return true;
+}
+
+function columnsMatch(decoded: DecodedPng, x1: number, x2: number): boolean {
+	const { width, height, data } = decoded;
+	for (let y = 0; y < height; y += 1) {
+		const row = y * width;
+		if (!pixelsMatch(data, (row + x1) * 4, (row + x2) * 4)) return false;
+	}
+	return true;
+}
+
+function rowsMatch(decoded: DecodedPng, y1: number, y2: number): boolean {
+	const { width, data } = decoded;
+	for (let x = 0; x < width; x += 1) {
+		if (!pixelsMatch(data, (y1 * width + x) * 4, (y2 * width + x) * 4)) return false;
+	}
+	return true;
+}
+
+/**
+ * Returns the UI color literal when every pixel of the texture has the same color,
+ * so flat backgrounds can be emitted without a texture file.
+ */
+export function detectSolidColor(decoded: DecodedPng): string | null {
+	const { width, height, data } = decoded;
+	if (width === 0 || height === 0) return null;
+	for (let i = 4; i < width * height * 4; i += 4) {
+		if (!pixelsMatch(data, 0, i)) return null;
+	}
+	const hex = [data[0] ?? 0, data[1] ?? 0, data[2] ?? 0].map(part => part.toString(16).padStart(2, "0")).join("");
+	const alpha = data[3] ?? 0;
+	return alpha >= 255 ? `#${hex}` : `#${hex}(${formatAlpha(alpha / 255)})`;
+}
+
+/**
+ * Finds the band of repeating lines around the center of one axis and returns the
+ * symmetric border outside of it, or null when the axis has no repeating center.
+ */
+function findStretchBorder(size: number, linesMatch: (a: number, b: number) => boolean): number | null {
+	if (size < 3) return null;
+	const center = Math.floor(size / 2);
+	let start = center;
+	while (start > 0 && linesMatch(start - 1, center)) start -= 1;
+	let end = center;
+	while (end < size - 1 && linesMatch(end + 1, center)) end += 1;
+	if (start === end) return null;
+	return Math.max(start, size - 1 - end);
+}
+
+function cropSlice(
+	decoded: DecodedPng,
+	width: number,
+	height: number,
+	horizontalBorder: number,
+	verticalBorder: number,
+): DecodedPng {
+	const data = Buffer.alloc(width * height * 4);
+	const sourceX = (x: number) => (x < width - horizontalBorder ? x : decoded.width - width + x);
+	const sourceY = (y: number) => (y < height - verticalBorder ? y : decoded.height - height + y);
+	for (let y = 0; y < height; y += 1) {
+		const srcRow = sourceY(y) * decoded.width;
+		for (let x = 0; x < width; x += 1) {
+			const src = (srcRow + sourceX(x)) * 4;
+			decoded.data.copy(data, (y * width + x) * 4, src, src + 4);
+		}
+	}
+	return { width, height, data };
+}
+
+/**
+ * Resolves the kept border and reduced size of one axis. Axes without a repeating center
+ * keep their full extent, which lets one-directional gradients collapse to a thin strip.
+ */
+function sliceAxis(size: number, rawBorder: number | null, band: number): { border: number; size: number } {
+	if (rawBorder === null) return { border: 0, size };
+	const border = Math.ceil(rawBorder / band) * band;
+	if (border * 2 + band > size) return { border: 0, size };
+	return { border, size: border * 2 + band };
+}
+
+/**
+ * Detects a stretchable texture and returns the reduced version: a frame (uniform center,
+ * repeating edges) keeps its borders plus a stretch band, and an axis-aligned gradient keeps
+ * a strip one CSS pixel thick. Borders are rounded up to whole CSS pixels so
+ * `border / scaleFactor` is exact.
+ */
+export function detectNineSlice(decoded: DecodedPng, scaleFactor: number): NineSlice | null {
+	const rawHorizontal = findStretchBorder(decoded.width, (a, b) => columnsMatch(decoded, a, b));
+	const rawVertical = findStretchBorder(decoded.height, (a, b) => rowsMatch(decoded, a, b));
+	if (rawHorizontal === null && rawVertical === null) return null;
+
+	const horizontal = sliceAxis(decoded.width, rawHorizontal, scaleFactor);
+	const vertical = sliceAxis(decoded.height, rawVertical, scaleFactor);
+	if (horizontal.size * vertical.size > decoded.width * decoded.height * SLICE_MAX_AREA_RATIO) return null;
+
+	const texture = cropSlice(decoded, horizontal.size, vertical.size, horizontal.border, vertical.border);
+	return { horizontalBorder: horizontal.border, verticalBorder: vertical.border, texture };
+}
+
+/**
+ * Isolates a part that only appears in one of two otherwise identical captures (a slider
+ * handle rendered over its track). Returns the bounding box of the differing pixels,
+ * cropped from `withPart`, with the unchanged pixels inside the box made transparent.
+ */
+export function extractDifference(
+	withPart: DecodedPng,
+	withoutPart: DecodedPng,
+): { x: number; y: number; texture: DecodedPng } | null {
+	const { width, height } = withPart;
+	if (withoutPart.width !== width || withoutPart.height !== height) return null;
+	let minX = width;
+	let minY = height;
+	let maxX = -1;
+	let maxY = -1;
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const offset = (y * width + x) * 4;
+			if (pixelsMatchAcross(withPart.data, withoutPart.data, offset)) continue;
+			minX = Math.min(minX, x);
+			minY = Math.min(minY, y);
+			maxX = Math.max(maxX, x);
+			maxY = Math.max(maxY, y);
+		}
+	}
+	if (maxX < 0) return null;
+
+	const cropWidth = maxX - minX + 1;
+	const cropHeight = maxY - minY + 1;
+	const data = Buffer.alloc(cropWidth * cropHeight * 4);
+	for (let y = 0; y < cropHeight; y += 1) {
+		for (let x = 0; x < cropWidth; x += 1) {
+			const src = ((minY + y) * width + minX + x) * 4;
+			if (pixelsMatchAcross(withPart.data, withoutPart.data, src)) continue;
+			withPart.data.copy(data, (y * cropWidth + x) * 4, src, src + 4);
+		}
+	}
+	return { x: minX, y: minY, texture: { width: cropWidth, height: cropHeight, data } };
+}
+
+export function upscaleNearest(decoded: DecodedPng, factor: number): DecodedPng {
+	const width = decoded.width * factor;
+	const height = decoded.height * factor;
+	const data = Buffer.alloc(width * height * 4);
+	for (let y = 0; y < height; y += 1) {
+		const srcY = Math.floor(y / factor);
+		for (let x = 0; x < width; x += 1) {
+			const src = (srcY * decoded.width + Math.floor(x / factor)) * 4;
+			decoded.data.copy(data, (y * width + x) * 4, src, src + 4);
+		}
+	}
+	return { width, height, data };
+}
@@ -20,6 +20,12 @@ export function decodePng(buffer: Buffer): DecodedPng {
 	return { width: png.width, height: png.height, data: png.data };
 }
 
+export function encodePng(decoded: DecodedPng): Buffer {
+	const png = new PNG({ width: decoded.width, height: decoded.height });
+	decoded.data.copy(png.data);
+	return PNG.sync.write(png);
+}
+
 export function hashPngPixels(decoded: DecodedPng): string {
 	return sha256Hex(`${decoded.width}x${decoded.height}\u0000`, decoded.data);
 }
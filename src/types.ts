@@ -14,8 +14,59 @@ export type LabelStyle = {
 	wrap?: boolean;
 	fontName?: string;
 	maxLines?: number;
+	outlineColor?: string;
 };
 
+/** One run of a rich-text label; unset fields inherit the label's Style. */
+export type LabelSpan = {
+	text: string;
+	bold?: boolean;
+	italic?: boolean;
+	underline?: boolean;
+	color?: string;
+};
+
+export type UiBackground =
+	| { kind: "color"; color: string }
+	| { kind: "texture"; texturePath: string }
+	| {
+			kind: "patch";
+			texturePath: string;
+			horizontalBorder: number; // UI units
+			verticalBorder: number; // UI units
+			scale: number; // texture pixels per UI unit
+	  };
+
+export type ScrollInfo = {
+	axis: "x" | "y";
+	contentSize: number; // full content extent along the scroll axis, excluding padding
+	stacked: boolean; // children form a plain stack along the scroll axis
+	scrollbarStyle: string;
+};
+
+export type ToggleKind = "CheckBox" | "LabeledCheckBox" | "ToggleButton";
+
+export type TextFieldKind = "TextField" | "CompactTextField" | "MultilineTextField";
+
+export type RangeKind = "Slider" | "FloatSlider" | "SliderNumberField" | "ProgressBar" | "CircularProgressBar";
+
+export type DropdownEntry = { value: string; label: string; selected: boolean; disabled: boolean };
+
+export type ItemKind = "ItemSlot" | "ItemSlotButton" | "ItemGrid" | "ItemIcon";
+
+export type ItemGridLayout = {
+	columns: number;
+	rows: number;
+	slotWidth: number;
+	slotHeight: number;
+	spacingX: number;
+	spacingY: number;
+};
+
+export type AssetReference = { kind: "AssetImage" | "Sprite"; path: string | null };
+
+export type UiEventDeclaration = { type: string; action: string };
+
 export type AnchorValues = {
 	top?: number;
 	left?: number;
@@ -25,8 +76,19 @@ export type AnchorValues = {
 	height?: number;
 };
 
+// The flex container an element's children sit in, measured in the page
+export type FlexContainer = {
+	direction: string;
+	justifyContent: string;
+	alignItems: string;
+	gap: number; // along the main axis
+	items: number[]; // idx of the child in each flex item, in flow order
+};
+
 export type RawElement = {
 	idx: number;
+	// Position among the elements of document.body, which finds the element again on a fresh load
+	domIndex: number;
 	rawId: string;
 	tag: string;
 	dataState: string | null;
@@ -44,6 +106,7 @@ export type RawElement = {
 	isLabel: boolean;
 	text: string | null;
 	textBinding: string | null;
+	i18nKey: string | null;
 	textStyle: {
 		fontSize: number;
 		color: string;
@@ -55,9 +118,15 @@ export type RawElement = {
 		textAlign: string;
 		verticalAlign: string;
 		whiteSpace: string;
+		fontFamily: string;
 		fontName: string | null;
 		maxLines: number | null;
+		textStrokeWidth: number;
+		textStrokeColor: string;
+		textShadow: string;
+		backgroundClip: string;
 	} | null;
+	textSpans: Array<{ text: string; fontWeight: string; fontStyle: string; underline: boolean; color: string }> | null;
 	skipRender: boolean;
 	useBackdrop: boolean;
 	bleed: number;
@@ -69,7 +138,41 @@ export type RawElement = {
 	hitTestVisible: boolean;
 	mask: string | null;
 	spacing: number;
+	explicitSpacing: boolean; // data-hy-spacing is set
 	margin: Insets;
+	warnings: string[]; // printed with the element's id
+	// Flex container of the children when LayoutMode is inferred, or why there is none that can be used
+	flex: FlexContainer | string | null;
+	scroll: {
+		axis: "x" | "y";
+		contentSize: number;
+		stacked: boolean;
+		scrollbarWidth: string;
+		scrollbarColor: string;
+		styleRef: string | null;
+	} | null;
+	inScrollContainer: boolean;
+	customStates: string[];
+	toggle: { kind: ToggleKind; checked: boolean } | null;
+	textField: {
+		kind: TextFieldKind;
+		placeholder: string | null;
+		placeholderColor: string;
+		value: string | null;
+		maxLength: number | null;
+		password: boolean;
+	} | null;
+	range: { kind: RangeKind; min: number; max: number; value: number; step: number | null } | null;
+	dropdown: { entries: DropdownEntry[] } | null;
+	isTabs: boolean;
+	tab: { active: boolean; panelIdx: number | null } | null;
+	item: { kind: ItemKind; grid: (ItemGridLayout & { slotRect: Rect | null }) | null } | null;
+	asset: AssetReference | null;
+	component: string | null;
+	repeat: { name: string; rowIdx: number | null } | null; // set on the container of a data-hy-repeat row
+	events: UiEventDeclaration[];
+	eventData: Record<string, string> | null;
+	sourceTextures: Record<string, string> | null; // state -> data-hy-texture* value, resolved with resolveSourceTexture
 };
 
 export type GeneratedElement = {
@@ -79,12 +182,13 @@ export type GeneratedElement = {
 	padding: Insets;
 	border: Insets;
 	isButton: boolean;
-	textures: Record<string, string>;
+	textures: Record<string, UiBackground>;
 	files: Record<string, string>;
 	dataState: string | null;
 	disabled: boolean;
-	selectedTexture?: string;
-	focusTexture?: string;
+	selectedTexture?: UiBackground;
+	focusTexture?: UiBackground;
+	customStates: Array<{ name: string; textures: Record<string, UiBackground> }>;
 	children: GeneratedElement[];
 	zIndex: number;
 	order: number;
@@ -93,7 +197,9 @@ export type GeneratedElement = {
 	isLabel: boolean;
 	text: string | null;
 	textBinding: string | null;
+	i18nKey: string | null;
 	labelStyle: LabelStyle | null;
+	textSpans: LabelSpan[] | null;
 	hidden: boolean;
 	clipChildren: boolean;
 	tooltip: string | null;
@@ -102,6 +208,53 @@ export type GeneratedElement = {
 	mask: string | null;
 	spacing: number;
 	margin: Insets;
+	scroll: ScrollInfo | null;
+	toggle: {
+		kind: ToggleKind;
+		checked: boolean;
+		checkedTextures: Record<string, UiBackground>; // unchecked textures live in `textures`
+	} | null;
+	textField: {
+		kind: TextFieldKind;
+		placeholder: string | null;
+		placeholderColor: string | null; // UI color literal
+		value: string | null;
+		maxLength: number | null;
+		password: boolean;
+	} | null;
+	range: {
+		kind: RangeKind;
+		min: number;
+		max: number;
+		value: number;
+		step: number | null;
+		fillTexturePath: string | null; // rendered at 100%; the track (0%) lives in `textures.default`
+		handle: { texturePath: string; width: number; height: number } | null; // UI units
+	} | null;
+	dropdown: {
+		entries: DropdownEntry[];
+		panelBackground: UiBackground | null;
+		entryHeight: number;
+	} | null;
+	isTabs: boolean;
+	tab: {
+		active: boolean;
+		panelId: string | null;
+		activeTextures: Record<string, UiBackground>; // inactive textures live in `textures`
+	} | null;
+	item: {
+		kind: ItemKind;
+		grid: (ItemGridLayout & { slotBackground: UiBackground | null }) | null;
+		previewFile: string | null; // capture including the mock content, used by the preview only
+	} | null;
+	asset: AssetReference | null;
+	component: string | null; // data-hy-component template name
+	events: Array<UiEventDeclaration & { data: Record<string, string> | null }>;
+	repeat: {
+		name: string; // row document name
+		rowId: string | null;
+		previewFile: string | null; // capture including the mock rows, used by the preview only
+	} | null;
 };
 
 export type Args = {
@@ -114,8 +267,21 @@ export type Args = {
 	check: boolean;
 	strictValidate: boolean;
 	force: boolean;
+	outLang: string;
+	autoI18n: boolean;
+	pseudoLocale: boolean;
+	strictPseudoLocale: boolean;
+	outJava: string | null;
+	javaPackage: string | null;
 };
 
+export type ProjectConfig = {
+	fonts: Record<string, string>; // CSS font-family -> Hytale FontName
+	previewFonts: Record<string, string>; // Hytale FontName -> CSS font stack for the preview
+};
+
+export type PseudoLocaleIssue = { id: string; message: string };
+
 export type DecodedPng = { width: number; height: number; data: Buffer };
 
 export type SharedTextureInfo = {
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+
+import { buildTemplate } from "./ui-generator.js";
+
+const card = (id: string, title: string, anchor = "(Top: 0, Left: 0, Width: 200, Height: 80)") => [
+	`Group #${id} {`,
+	`  Anchor: ${anchor};`,
+	`  Label #Title${id.replace(/^Card/, "")} {`,
+	`    Text: ${title};`,
+	"  }",
+	"}",
+];
+
+describe("buildTemplate", () => {
+	test("emits empty instances when the renderings only differ in ids", () => {
+		expect(buildTemplate("CardTemplate", [card("Card", '"A"'), card("Card2", '"A"')])).toEqual({
+			definition: [
+				"@CardTemplate = Group {",
+				"  Anchor: (Top: 0, Left: 0, Width: 200, Height: 80);",
+				"  Label #Title {",
+				'    Text: "A";',
+				"  }",
+				"};",
+			],
+			instances: [["@CardTemplate #Card {}"], ["@CardTemplate #Card2 {}"]],
+		});
+	});
+
+	test("turns differing nested properties into parameters named after their element", () => {
+		const template = buildTemplate("CardTemplate", [card("Card", '"A"'), card("Card2", '"B"')]);
+		expect(template).toEqual({
+			definition: [
+				"@CardTemplate = Group {",
+				'  @TitleText = "A";',
+				"  Anchor: (Top: 0, Left: 0, Width: 200, Height: 80);",
+				"  Label #Title {",
+				"    Text: @TitleText;",
+				"  }",
+				"};",
+			],
+			instances: [["@CardTemplate #Card {}"], ["@CardTemplate #Card2 {", '  @TitleText = "B";', "}"]],
+		});
+	});
+
+	test("sets differing root properties on the instance", () => {
+		const moved = card("Card2", '"A"', "(Top: 100, Left: 0, Width: 200, Height: 80)");
+		const template = buildTemplate("CardTemplate", [card("Card", '"A"'), moved]);
+		expect(template).toMatchObject({
+			instances: [
+				["@CardTemplate #Card {}"],
+				["@CardTemplate #Card2 {", "  Anchor: (Top: 100, Left: 0, Width: 200, Height: 80);", "}"],
+			],
+		});
+	});
+
+	test("rejects renderings that differ in structure", () => {
+		const extra = [...card("Card2", '"A"').slice(0, -1), "  Group {}", "}"];
+		expect(buildTemplate("CardTemplate", [card("Card", '"A"'), extra])).toEqual({
+			error: "instances differ in structure",
+		});
+	});
+
+	test("rejects differences in properties instances can't override", () => {
+		const visible = card("Card", '"A"');
+		const hidden = card("Card2", '"A"');
+		visible.splice(2, 0, "  Visible: true;");
+		hidden.splice(2, 0, "  Visible: false;");
+		expect(buildTemplate("CardTemplate", [visible, hidden])).toEqual({
+			error: "instances differ in Visible, which can't be overridden",
+		});
+	});
+});
@@ -1,5 +1,37 @@
-import type { AnchorValues, GeneratedElement, Insets, LabelStyle, RawElement, Rect, Viewport } from "./types.js";
-import { escapeUiString, formatUiNumber, hasInsets, parseCssColor, sumInsets, zeroInsets } from "./utils.js";
+import type { SharedStyles } from "./common-ui.js";
+import {
+	COMMON_UI_ALIAS,
+	COMMON_UI_FILE,
+	SCROLLBAR_HANDLE_COLOR,
+	SCROLLBAR_SIZE,
+	SCROLLBAR_THIN_SIZE,
+	SCROLLBAR_TRACK_COLOR,
+	TEXT_FIELD_PASSWORD_CHAR,
+	TEXT_OUTLINE_MAX_BLUR_PX,
+	TEXT_OUTLINE_MAX_OFFSET_PX,
+} from "./constants.js";
+import type {
+	AnchorValues,
+	GeneratedElement,
+	Insets,
+	LabelSpan,
+	LabelStyle,
+	RawElement,
+	Rect,
+	UiBackground,
+	Viewport,
+} from "./types.js";
+import {
+	escapeUiString,
+	formatUiNumber,
+	hasInsets,
+	parseCssColor,
+	parseTextShadow,
+	sha256Hex,
+	sumInsets,
+	toPascalCase,
+	zeroInsets,
+} from "./utils.js";
 
 export function normalizeLayoutMode(value: string | null): string | null {
 	if (!value) return null;
@@ -23,6 +55,8 @@ export function normalizeLayoutMode(value: string | null): string | null {
 			return "Full";
 		case "topscrolling":
 			return "TopScrolling";
+		case "leftscrolling":
+			return "LeftScrolling";
 		case "leftcenterwrap":
 			return "LeftCenterWrap";
 		case "centermiddle":
@@ -75,6 +109,116 @@ export function formatAnchor(anchor: AnchorValues): string {
 	return `(${parts.join(", ")})`;
 }
 
+export function formatBackground(background: UiBackground): string {
+	if (background.kind === "color") {
+		return background.color;
+	}
+	if (background.kind === "texture") {
+		return `"${escapeUiString(background.texturePath)}"`;
+	}
+	const parts = [`TexturePath: "${escapeUiString(background.texturePath)}"`];
+	const { horizontalBorder, verticalBorder } = background;
+	if (horizontalBorder === verticalBorder) {
+		if (horizontalBorder > 0) parts.push(`Border: ${formatUiNumber(horizontalBorder)}`);
+	} else {
+		if (horizontalBorder > 0) parts.push(`HorizontalBorder: ${formatUiNumber(horizontalBorder)}`);
+		if (verticalBorder > 0) parts.push(`VerticalBorder: ${formatUiNumber(verticalBorder)}`);
+	}
+	return `PatchStyle(${parts.join(", ")})`;
+}
+
+export function formatButtonStyle(textures: Record<string, UiBackground>): string {
+	const stateParts = [`Default: (Background: ${formatBackground(textures.default!)})`];
+	if (textures.hover) {
+		stateParts.push(`Hovered: (Background: ${formatBackground(textures.hover)})`);
+	}
+	if (textures.pressed) {
+		stateParts.push(`Pressed: (Background: ${formatBackground(textures.pressed)})`);
+	}
+	if (textures.disabled) {
+		stateParts.push(`Disabled: (Background: ${formatBackground(textures.disabled)})`);
+	}
+	return `ButtonStyle(${stateParts.join(", ")})`;
+}
+
+function formatCheckBoxStyleState(textures: Record<string, UiBackground>): string {
+	const stateParts = [`DefaultBackground: ${formatBackground(textures.default!)}`];
+	if (textures.hover) stateParts.push(`HoveredBackground: ${formatBackground(textures.hover)}`);
+	if (textures.pressed) stateParts.push(`PressedBackground: ${formatBackground(textures.pressed)}`);
+	if (textures.disabled) stateParts.push(`DisabledBackground: ${formatBackground(textures.disabled)}`);
+	return `(${stateParts.join(", ")})`;
+}
+
+export function formatCheckBoxStyle(
+	unchecked: Record<string, UiBackground>,
+	checked: Record<string, UiBackground>,
+): string {
+	return `CheckBoxStyle(Unchecked: ${formatCheckBoxStyleState(unchecked)}, Checked: ${formatCheckBoxStyleState(checked)})`;
+}
+
+/** `@Name` or `$Alias.@Name`, the forms data-hy-scrollbar-style may reference a style by. */
+export function isStyleReference(value: string): boolean {
+	return /^(?:\$[A-Za-z][A-Za-z0-9_]*\.)?@[A-Za-z][A-Za-z0-9_]*$/.test(value);
+}
+
+export function buildScrollbarStyle(raw: NonNullable<RawElement["scroll"]>): string {
+	if (raw.styleRef && isStyleReference(raw.styleRef)) return raw.styleRef;
+	const size =
+		raw.scrollbarWidth === "none" ? 0 : raw.scrollbarWidth === "thin" ? SCROLLBAR_THIN_SIZE : SCROLLBAR_SIZE;
+	const colors = raw.scrollbarColor.match(/rgba?\([^)]*\)|#[0-9a-f]+/gi) ?? [];
+	const handle = parseCssColor(colors[0] ?? null) ?? SCROLLBAR_HANDLE_COLOR;
+	const track = parseCssColor(colors[1] ?? null) ?? SCROLLBAR_TRACK_COLOR;
+	return (
+		`ScrollbarStyle(Size: ${size}, Spacing: 0, Background: ${track}, ` +
+		`Handle: ${handle}, HoveredHandle: ${handle}, DraggedHandle: ${handle})`
+	);
+}
+
+type TextEffects = Pick<
+	NonNullable<RawElement["textStyle"]>,
+	"color" | "textStrokeWidth" | "textStrokeColor" | "textShadow" | "backgroundClip"
+>;
+
+/** A text stroke, or a single tight text shadow, becomes the label's OutlineColor. */
+function textOutlineColor(raw: TextEffects): string | null {
+	if (raw.textStrokeWidth > 0) return parseCssColor(raw.textStrokeColor);
+	const layers = parseTextShadow(raw.textShadow);
+	if (layers.length === 0 || layers.some(layer => !isOutlineShadow(layer))) return null;
+	const colors = new Set(layers.map(layer => layer.color));
+	if (colors.size !== 1) return null;
+	return parseCssColor(layers[0]!.color === "currentcolor" ? raw.color : layers[0]!.color);
+}
+
+function isOutlineShadow(layer: { offsetX: number; offsetY: number; blur: number }): boolean {
+	return (
+		Math.abs(layer.offsetX) <= TEXT_OUTLINE_MAX_OFFSET_PX &&
+		Math.abs(layer.offsetY) <= TEXT_OUTLINE_MAX_OFFSET_PX &&
+		layer.blur <= TEXT_OUTLINE_MAX_BLUR_PX
+	);
+}
+
+/**
+ * Describes a text effect that LabelStyle can't express (gradient text, glows, drop shadows),
+ * or null when the label can be emitted as text.
+ */
+export function findUnsupportedTextEffect(raw: TextEffects): string | null {
+	if (raw.backgroundClip.includes("text")) return "gradient text (background-clip: text)";
+	const layers = parseTextShadow(raw.textShadow);
+	if (layers.length === 0 || textOutlineColor(raw)) return null;
+	if (layers.some(layer => layer.blur > TEXT_OUTLINE_MAX_BLUR_PX)) {
+		return layers.length > 1 ? "multi-layer text glow" : "blurred text shadow";
+	}
+	return layers.length > 1 ? "multi-color text shadow" : "offset text shadow";
+}
+
+function isBoldWeight(fontWeight: string): boolean {
+	return fontWeight === "bold" || fontWeight === "bolder" || Number.parseInt(fontWeight, 10) >= 600;
+}
+
+function isItalicStyle(fontStyle: string): boolean {
+	return fontStyle === "italic" || fontStyle === "oblique";
+}
+
 export function buildLabelStyle(raw: RawElement["textStyle"]): LabelStyle | null {
 	if (!raw) return null;
 	const style: LabelStyle = {};
@@ -82,11 +226,10 @@ export function buildLabelStyle(raw: RawElement["textStyle"]): LabelStyle | null
 	const color = parseCssColor(raw.color);
 	if (color) style.textColor = color;
 
-	const weightValue = Number.parseInt(raw.fontWeight, 10);
-	if (raw.fontWeight === "bold" || raw.fontWeight === "bolder" || weightValue >= 600) {
+	if (isBoldWeight(raw.fontWeight)) {
 		style.bold = true;
 	}
-	if (raw.fontStyle === "italic" || raw.fontStyle === "oblique") {
+	if (isItalicStyle(raw.fontStyle)) {
 		style.italic = true;
 	}
 	if (raw.textTransform === "uppercase") {
@@ -113,13 +256,351 @@ export function buildLabelStyle(raw: RawElement["textStyle"]): LabelStyle | null
 	}
 	if (raw.fontName) style.fontName = raw.fontName;
 	if (raw.maxLines !== null && raw.maxLines > 0) style.maxLines = raw.maxLines;
+	const outlineColor = textOutlineColor(raw);
+	if (outlineColor) style.outlineColor = outlineColor;
 
 	return Object.keys(style).length > 0 ? style : null;
 }
 
-export function buildUiFile(elements: GeneratedElement[], viewport: Viewport, hasSceneBlur: boolean): string {
+/**
+ * Converts the formatted runs of a rich-text label to TextSpans. Each span only carries what
+ * differs from the label's own Style, so plain runs stay `(Text: "...")`.
+ */
+export function buildTextSpans(raw: RawElement["textSpans"], labelStyle: LabelStyle | null): LabelSpan[] | null {
+	if (!raw) return null;
+	return raw.map(run => {
+		const span: LabelSpan = { text: run.text };
+		const bold = isBoldWeight(run.fontWeight);
+		const italic = isItalicStyle(run.fontStyle);
+		const color = parseCssColor(run.color);
+		if (bold !== Boolean(labelStyle?.bold)) span.bold = bold;
+		if (italic !== Boolean(labelStyle?.italic)) span.italic = italic;
+		if (run.underline !== Boolean(labelStyle?.underline)) span.underline = run.underline;
+		if (color && color !== labelStyle?.textColor) span.color = color;
+		return span;
+	});
+}
+
+function formatTextSpan(span: LabelSpan): string {
+	const parts = [`Text: "${escapeUiString(span.text)}"`];
+	if (span.bold !== undefined) parts.push(`IsBold: ${span.bold}`);
+	if (span.italic !== undefined) parts.push(`IsItalic: ${span.italic}`);
+	if (span.underline !== undefined) parts.push(`IsUnderlined: ${span.underline}`);
+	if (span.color) parts.push(`Color: ${span.color}`);
+	return `(${parts.join(", ")})`;
+}
+
+function formatLabelStyleParts(style: LabelStyle): string[] {
+	const styleParts: string[] = [];
+	if (style.fontSize !== undefined) styleParts.push(`FontSize: ${formatUiNumber(style.fontSize)}`);
+	if (style.textColor) styleParts.push(`TextColor: ${style.textColor}`);
+	if (style.bold) styleParts.push("RenderBold: true");
+	if (style.italic) styleParts.push("RenderItalics: true");
+	if (style.uppercase) styleParts.push("RenderUppercase: true");
+	if (style.underline) styleParts.push("RenderUnderlined: true");
+	if (style.wrap) styleParts.push("Wrap: true");
+	if (style.fontName) styleParts.push(`FontName: "${escapeUiString(style.fontName)}"`);
+	if (style.outlineColor) styleParts.push(`OutlineColor: ${style.outlineColor}`);
+	if (style.letterSpacing !== undefined) styleParts.push(`LetterSpacing: ${formatUiNumber(style.letterSpacing)}`);
+	if (style.align) styleParts.push(`HorizontalAlignment: ${style.align}`);
+	if (style.valign) styleParts.push(`VerticalAlignment: ${style.valign}`);
+	return styleParts;
+}
+
+// Template instances are first rendered in full, then swapped for `@Template #Id { ... }`
+// once every instance of the template is known
+const INSTANCE_MARKER = "\u0000instance:";
+
+// What an instance may override: its text, anchors and textures
+const TEMPLATE_OVERRIDABLE_PROPERTIES = new Set([
+	"Anchor",
+	"Text",
+	"TextSpans",
+	"Background",
+	"Style",
+	"SelectedStyle",
+	"TexturePath",
+	"AssetPath",
+	"BarTexturePath",
+	"SlotBackground",
+	"MaskTexturePath",
+]);
+
+// Fields that only feed overridable properties or don't reach the document; left out when comparing subtrees
+const TEMPLATE_IGNORED_FIELDS = new Set([
+	"id",
+	"rect",
+	"anchorTokens",
+	"order",
+	"zIndex",
+	"text",
+	"textSpans",
+	"textBinding",
+	"i18nKey",
+	"textures",
+	"selectedTexture",
+	"focusTexture",
+	"files",
+	"checkedTextures",
+	"activeTextures",
+	"panelBackground",
+	"slotBackground",
+	"fillTexturePath",
+	"texturePath",
+	"previewFile",
+	"mask",
+	"events",
+	"children",
+]);
+
+/**
+ * Structural fingerprint of a subtree: everything except what an instance may override.
+ * Null when the subtree references ids from outside (tabs) or adds definitions (custom states).
+ */
+// Custom states and tabs render as hidden variants and SelectedStyle, which instances can't override
+const isTemplatable = (element: GeneratedElement) =>
+	element.customStates.length === 0 && !element.tab && !element.isTabs;
+
+function templateSignature(element: GeneratedElement, memo: Map<GeneratedElement, string | null>): string | null {
+	const cached = memo.get(element);
+	if (cached !== undefined) return cached;
+	const childSignatures = element.children.map(child => templateSignature(child, memo));
+	let signature: string | null = null;
+	if (isTemplatable(element) && childSignatures.every(childSignature => childSignature !== null)) {
+		const own = JSON.stringify(element, (key, value) => (TEMPLATE_IGNORED_FIELDS.has(key) ? undefined : value));
+		const backgrounds = Object.entries(element.textures).map(([state, background]) => `${state}:${background.kind}`);
+		signature = `${own}|${element.text !== null}|${backgrounds.sort().join(",")}[${childSignatures.join(";")}]`;
+	}
+	memo.set(element, signature);
+	return signature;
+}
+
+/**
+ * Picks the subtrees emitted as template instances: every `data-hy-component` element, then
+ * the largest containers that occur at least twice with the same structure. Instances never nest.
+ */
+function findTemplateInstances(
+	elements: GeneratedElement[],
+	onWarning: (message: string) => void,
+): Map<GeneratedElement, string> {
+	const memo = new Map<GeneratedElement, string | null>();
+	const sizes = new Map<GeneratedElement, number>();
+	const descendants = new Map<GeneratedElement, GeneratedElement[]>();
+	const explicitGroups = new Map<string, GeneratedElement[]>();
+	const implicitGroups = new Map<string, GeneratedElement[]>();
+	const visit = (element: GeneratedElement): GeneratedElement[] => {
+		const below = element.children.flatMap(child => [child, ...visit(child)]);
+		descendants.set(element, below);
+		sizes.set(element, below.length + 1);
+		return below;
+	};
+	const rejectedComponents = new Set<string>();
+	const isTemplatableTree = (element: GeneratedElement): boolean =>
+		isTemplatable(element) && element.children.every(isTemplatableTree);
+	const collect = (element: GeneratedElement) => {
+		if (element.component && !isTemplatableTree(element)) {
+			if (!rejectedComponents.has(element.component)) {
+				rejectedComponents.add(element.component);
+				onWarning(`component ${element.component} has tabs or custom states; writing its instances out in full.`);
+			}
+		} else if (element.component) {
+			explicitGroups.set(element.component, [...(explicitGroups.get(element.component) ?? []), element]);
+		} else if (element.children.length > 0) {
+			const signature = templateSignature(element, memo);
+			if (signature) implicitGroups.set(signature, [...(implicitGroups.get(signature) ?? []), element]);
+		}
+		for (const child of element.children) collect(child);
+	};
+	for (const element of elements) {
+		visit(element);
+		collect(element);
+	}
+
+	const instances = new Map<GeneratedElement, string>();
+	const covered = new Set<GeneratedElement>();
+	const claim = (members: GeneratedElement[], name: string) => {
+		for (const member of members) {
+			instances.set(member, name);
+			covered.add(member);
+			for (const descendant of descendants.get(member) ?? []) covered.add(descendant);
+		}
+	};
+	const isFree = (element: GeneratedElement) =>
+		!covered.has(element) && !(descendants.get(element) ?? []).some(descendant => covered.has(descendant));
+
+	for (const [name, members] of explicitGroups) {
+		const free = members.filter(isFree);
+		if (free.length > 0) claim(free, name);
+	}
+	const usedNames = new Set(explicitGroups.keys());
+	const groups = [...implicitGroups.values()].sort((a, b) => sizes.get(b[0]!)! - sizes.get(a[0]!)!);
+	for (const members of groups) {
+		const free = members.filter(isFree);
+		if (free.length < 2) continue;
+		const baseName = `${free[0]!.id.replace(/\d+$/, "")}Template`;
+		let name = baseName;
+		for (let suffix = 2; usedNames.has(name); suffix += 1) name = `${baseName}${suffix}`;
+		usedNames.add(name);
+		claim(free, name);
+	}
+	return instances;
+}
+
+/**
+ * Turns the full renderings of a template's instances (indentation removed) into a template
+ * definition plus one short instance each. Properties that differ on the template root are
+ * set on the instance; those of nested elements become `@<ChildId><Property>` parameters.
+ * Returns the reason when the instances differ in anything but overridable properties.
+ */
+export function buildTemplate(
+	name: string,
+	renderings: string[][],
+): { definition: string[]; instances: string[][] } | { error: string } {
+	const first = renderings[0]!;
+	if (renderings.some(rendering => rendering.length !== first.length)) {
+		return { error: "instances differ in structure" };
+	}
+	const rootHeader = first[0]!.match(/^([A-Za-z]+) #[A-Za-z0-9_]+ \{$/);
+	let depth = 0;
+	for (const line of first) {
+		if (line.endsWith("{")) depth += 1;
+		else if (line.trim() === "}") depth -= 1;
+	}
+	if (!rootHeader || first[first.length - 1] !== "}" || depth !== 0) {
+		return { error: "the component does not render as a single element" };
+	}
+
+	const parameters: string[] = [];
+	const parameterNames = new Set<string>();
+	const body: string[] = [];
+	const overrides = renderings.map(() => [] as string[]);
+	const owners: string[] = [];
+	for (let index = 1; index < first.length - 1; index += 1) {
+		const line = first[index]!;
+		const variants = renderings.map(rendering => rendering[index]!);
+		const header = line.match(/^\s*[A-Za-z]+(?: #([A-Za-z0-9_]+))? \{$/);
+		if (header) {
+			// Nested ids are scoped to the instance, so the first instance's ids are kept
+			const withoutId = (value: string) => value.replace(/ #[A-Za-z0-9_]+/, "");
+			if (variants.some(variant => withoutId(variant) !== withoutId(line))) {
+				return { error: "instances differ in structure" };
+			}
+			owners.push(header[1] ?? owners[owners.length - 1] ?? name);
+			body.push(line);
+			continue;
+		}
+		if (line.trim() === "}") {
+			owners.pop();
+			body.push(line);
+			continue;
+		}
+		if (variants.every(variant => variant === line)) {
+			body.push(line);
+			continue;
+		}
+		const property = line.match(/^(\s*)([A-Za-z]+): (.*);$/);
+		const values = variants.map(variant => variant.match(/^\s*([A-Za-z]+): (.*);$/));
+		if (!property || values.some(value => value?.[1] !== property[2])) {
+			return { error: "instances differ in structure" };
+		}
+		const [, lineIndent, propertyName, firstValue] = property;
+		// Style only carries textures for styled controls (ButtonStyle(...)); a label's Style is structure
+		const isTextureStyle = (value: string) =>
+			!propertyName!.endsWith("Style") ||
+			/^[A-Za-z]+Style\(/.test(value) ||
+			value.startsWith(`${COMMON_UI_ALIAS}.@ButtonStyle`);
+		if (!TEMPLATE_OVERRIDABLE_PROPERTIES.has(propertyName!) || !values.every(value => isTextureStyle(value![2]!))) {
+			return { error: `instances differ in ${propertyName}, which can't be overridden` };
+		}
+		if (owners.length === 0) {
+			body.push(line);
+			values.forEach((value, n) => {
+				if (value![2] !== firstValue) overrides[n]!.push(`${propertyName}: ${value![2]};`);
+			});
+			continue;
+		}
+		const baseParameter = `${owners[owners.length - 1]}${propertyName}`;
+		let parameter = baseParameter;
+		for (let suffix = 2; parameterNames.has(parameter); suffix += 1) parameter = `${baseParameter}${suffix}`;
+		parameterNames.add(parameter);
+		parameters.push(`  @${parameter} = ${firstValue};`);
+		body.push(`${lineIndent}${propertyName}: @${parameter};`);
+		values.forEach((value, n) => {
+			if (value![2] !== firstValue) overrides[n]!.push(`@${parameter} = ${value![2]};`);
+		});
+	}
+
+	return {
+		definition: [`@${name} = ${rootHeader[1]} {`, ...parameters, ...body, "};"],
+		instances: renderings.map((rendering, n) => {
+			const id = rendering[0]!.match(/#([A-Za-z0-9_]+)/)![1];
+			if (overrides[n]!.length === 0) return [`@${name} #${id} {}`];
+			return [`@${name} #${id} {`, ...overrides[n]!.map(override => `  ${override}`), "}"];
+		}),
+	};
+}
+
+export function buildUiFile(
+	elements: GeneratedElement[],
+	viewport: Viewport,
+	hasSceneBlur: boolean,
+	sharedStyles: SharedStyles,
+	onWarning: (message: string) => void = () => {},
+	selectors: Map<GeneratedElement, string> = new Map(),
+): string {
+	return renderUiDocument({
+		elements,
+		root: { kind: "page", viewport, hasSceneBlur },
+		sharedStyles,
+		commonUiPath: COMMON_UI_FILE,
+		selectors,
+		onWarning,
+	});
+}
+
+/**
+ * The row of a `data-hy-repeat` list as its own document, for Java to append to the emptied
+ * container. The row is anchored the way the container's layout places it, not against the viewport.
+ */
+export function buildRowUiFile(
+	row: GeneratedElement,
+	container: GeneratedElement,
+	sharedStyles: SharedStyles,
+	commonUiPath: string,
+	onWarning: (message: string) => void = () => {},
+	selectors: Map<GeneratedElement, string> = new Map(),
+): string {
+	return renderUiDocument({
+		elements: [row],
+		root: { kind: "row", container },
+		sharedStyles,
+		commonUiPath,
+		selectors,
+		onWarning,
+	});
+}
+
+function renderUiDocument(params: {
+	elements: GeneratedElement[];
+	// A page fills the viewport under Group #Root; a row document holds the row alone
+	root: { kind: "page"; viewport: Viewport; hasSceneBlur: boolean } | { kind: "row"; container: GeneratedElement };
+	sharedStyles: SharedStyles;
+	commonUiPath: string; // import path of Common.ui, relative to this document
+	selectors: Map<GeneratedElement, string>; // filled with the selector of every emitted element
+	onWarning: (message: string) => void;
+}): string {
+	const { elements, root, sharedStyles, commonUiPath, selectors, onWarning } = params;
 	const lines: string[] = [];
+	const definitions: string[] = [];
 	const indent = (level: number) => " ".repeat(level * 2);
+	// Named after their value, so identical styles on any page of the namespace share one variable
+	const shareStyle = (kind: "Label" | "Button", value: string) => {
+		const name = `${kind}Style${sha256Hex(value).slice(0, 8)}`;
+		sharedStyles[name] = value;
+		return `${COMMON_UI_ALIAS}.@${name}`;
+	};
+	const templateOf = findTemplateInstances(elements, onWarning);
+	const renderedInstances: Array<{ element: GeneratedElement; level: number; lines: string[] }> = [];
 
 	const appendAnchor = (level: number, anchorValues: AnchorValues) => {
 		lines.push(`${indent(level)}Anchor: ${formatAnchor(anchorValues)};`);
@@ -169,6 +650,17 @@ export function buildUiFile(elements: GeneratedElement[], viewport: Viewport, ha
 		}
 	};
 
+	const appendHiddenVariant = (level: number, id: string, anchorValues: AnchorValues, background: UiBackground) => {
+		lines.push(`${indent(level)}Group #${id} {`);
+		appendAnchor(level + 1, anchorValues);
+		lines.push(`${indent(level + 1)}Background: ${formatBackground(background)};`);
+		lines.push(`${indent(level + 1)}Visible: false;`);
+		lines.push(`${indent(level)}}`);
+	};
+
+	const containerWidthOf = (rect: Rect, insets: Insets) => Math.max(0, rect.width - insets.left - insets.right);
+	const containerHeightOf = (rect: Rect, insets: Insets) => Math.max(0, rect.height - insets.top - insets.bottom);
+
 	const appendSpacer = (level: number, vertical: boolean, size: number) => {
 		const anchor = vertical ? `(Height: ${size})` : `(Width: ${size})`;
 		lines.push(`${indent(level)}Group {`);
@@ -205,9 +697,19 @@ export function buildUiFile(elements: GeneratedElement[], viewport: Viewport, ha
 		parentLayoutMode: string | null,
 		insideButton: boolean = false,
 	) => {
+		if (templateOf.has(element) && !renderedInstances.some(instance => instance.element === element)) {
+			const start = lines.length;
+			const instance = { element, level, lines: [] as string[] };
+			renderedInstances.push(instance);
+			buildElement(element, parentRect, parentInsets, level, parentLayoutMode, insideButton);
+			instance.lines = lines.splice(start);
+			lines.push(`${INSTANCE_MARKER}${renderedInstances.length - 1}`);
+			return;
+		}
+		selectors.set(element, `#${element.id}`);
 		const contentInsets = sumInsets(element.padding, element.border);
-		const containerWidth = Math.max(0, parentRect.width - parentInsets.left - parentInsets.right);
-		const containerHeight = Math.max(0, parentRect.height - parentInsets.top - parentInsets.bottom);
+		const containerWidth = containerWidthOf(parentRect, parentInsets);
+		const containerHeight = containerHeightOf(parentRect, parentInsets);
 		const relativeRect = {
 			x: element.rect.x - parentRect.x - parentInsets.left,
 			y: element.rect.y - parentRect.y - parentInsets.top,
@@ -223,32 +725,24 @@ export function buildUiFile(elements: GeneratedElement[], viewport: Viewport, ha
 			? { width: relativeRect.width, height: relativeRect.height }
 			: deriveAnchor(element.anchorTokens, relativeRect, { width: containerWidth, height: containerHeight });
 		const hasChildren = element.children.length > 0;
+		// An emptied data-hy-repeat list still lays out the rows Java appends
+		const isContainer = hasChildren || element.repeat !== null;
 		if (element.isLabel) {
 			lines.push(`${indent(level)}Label #${element.id} {`);
 			appendAnchor(level + 1, anchorValues);
 			if (element.textBinding) {
 				lines.push(`${indent(level + 1)}Text: ${element.textBinding};`);
+			} else if (element.i18nKey) {
+				lines.push(`${indent(level + 1)}Text: %${element.i18nKey};`);
+			} else if (element.textSpans) {
+				lines.push(`${indent(level + 1)}TextSpans: [${element.textSpans.map(formatTextSpan).join(", ")}];`);
 			} else if (element.text !== null) {
 				lines.push(`${indent(level + 1)}Text: "${escapeUiString(element.text)}";`);
 			}
 			if (element.labelStyle) {
-				const styleParts: string[] = [];
-				if (element.labelStyle.fontSize !== undefined)
-					styleParts.push(`FontSize: ${formatUiNumber(element.labelStyle.fontSize)}`);
-				if (element.labelStyle.textColor) styleParts.push(`TextColor: ${element.labelStyle.textColor}`);
-				if (element.labelStyle.bold) styleParts.push("RenderBold: true");
-				if (element.labelStyle.italic) styleParts.push("RenderItalics: true");
-				if (element.labelStyle.uppercase) styleParts.push("RenderUppercase: true");
-				if (element.labelStyle.underline) styleParts.push("RenderUnderlined: true");
-				if (element.labelStyle.wrap) styleParts.push("Wrap: true");
-				if (element.labelStyle.fontName)
-					styleParts.push(`FontName: "${escapeUiString(element.labelStyle.fontName)}"`);
-				if (element.labelStyle.letterSpacing !== undefined)
-					styleParts.push(`LetterSpacing: ${formatUiNumber(element.labelStyle.letterSpacing)}`);
-				if (element.labelStyle.align) styleParts.push(`HorizontalAlignment: ${element.labelStyle.align}`);
-				if (element.labelStyle.valign) styleParts.push(`VerticalAlignment: ${element.labelStyle.valign}`);
+				const styleParts = formatLabelStyleParts(element.labelStyle);
 				if (styleParts.length > 0) {
-					lines.push(`${indent(level + 1)}Style: (${styleParts.join(", ")});`);
+					lines.push(`${indent(level + 1)}Style: ${shareStyle("Label", `(${styleParts.join(", ")})`)};`);
 				}
 			}
 			appendCommonProperties({ level: level + 1, element });
@@ -256,24 +750,169 @@ export function buildUiFile(elements: GeneratedElement[], viewport: Viewport, ha
 			return;
 		}
 
-		const shouldUseGroup = !element.isButton && hasChildren;
-		if (element.isButton) {
-			lines.push(`${indent(level)}Button #${element.id} {`);
+		if (element.asset) {
+			// Native game assets are referenced by path; a missing path is left for the server to set
+			const { asset } = element;
+			lines.push(`${indent(level)}${asset.kind} #${element.id} {`);
 			appendAnchor(level + 1, anchorValues);
-			if (hasChildren) {
+			if (asset.path !== null) {
+				const pathProperty = asset.kind === "Sprite" ? "TexturePath" : "AssetPath";
+				lines.push(`${indent(level + 1)}${pathProperty}: "${escapeUiString(asset.path)}";`);
+			}
+			appendCommonProperties({ level: level + 1, element });
+			lines.push(`${indent(level)}}`);
+			return;
+		}
+
+		if (element.item) {
+			const { item } = element;
+			lines.push(`${indent(level)}${item.kind} #${element.id} {`);
+			appendAnchor(level + 1, anchorValues);
+			if (item.grid || hasChildren) {
 				appendPadding(level + 1, contentInsets);
 			}
-			const stateParts = [`Default: (Background: "${escapeUiString(element.textures.default!)}")`];
-			if (element.textures.hover) {
-				stateParts.push(`Hovered: (Background: "${escapeUiString(element.textures.hover)}")`);
+			if (item.kind === "ItemSlotButton") {
+				lines.push(`${indent(level + 1)}Style: ${shareStyle("Button", formatButtonStyle(element.textures))};`);
+			} else if (item.kind !== "ItemIcon") {
+				lines.push(`${indent(level + 1)}Background: ${formatBackground(element.textures.default!)};`);
+			}
+			if (item.grid) {
+				lines.push(`${indent(level + 1)}SlotsPerRow: ${item.grid.columns};`);
+				lines.push(`${indent(level + 1)}RowCount: ${item.grid.rows};`);
+				lines.push(`${indent(level + 1)}SlotSize: ${item.grid.slotWidth};`);
+				lines.push(`${indent(level + 1)}SlotSpacing: ${item.grid.spacingX};`);
+				if (item.grid.slotBackground) {
+					lines.push(`${indent(level + 1)}SlotBackground: ${formatBackground(item.grid.slotBackground)};`);
+				}
+			}
+			appendCommonProperties({ level: level + 1, element, includeDisabled: item.kind === "ItemSlotButton" });
+			// Only an ItemIcon is ever emitted inside a slot
+			if (hasChildren) {
+				buildChildrenWithSpacing(
+					element.children,
+					element.rect,
+					contentInsets,
+					level + 1,
+					null,
+					0,
+					item.kind === "ItemSlotButton",
+				);
 			}
-			if (element.textures.pressed) {
-				stateParts.push(`Pressed: (Background: "${escapeUiString(element.textures.pressed)}")`);
+			lines.push(`${indent(level)}}`);
+			return;
+		}
+
+		const shouldUseGroup =
+			!element.isButton &&
+			!element.toggle &&
+			!element.textField &&
+			!element.range &&
+			!element.dropdown &&
+			isContainer;
+		if (element.dropdown) {
+			const { dropdown } = element;
+			lines.push(`${indent(level)}DropdownBox #${element.id} {`);
+			appendAnchor(level + 1, anchorValues);
+			appendPadding(level + 1, contentInsets);
+			const selected = dropdown.entries.find(entry => entry.selected);
+			if (selected) {
+				lines.push(`${indent(level + 1)}Value: "${escapeUiString(selected.value)}";`);
 			}
+			const styleParts = [`DefaultBackground: ${formatBackground(element.textures.default!)}`];
+			if (element.textures.hover) styleParts.push(`HoveredBackground: ${formatBackground(element.textures.hover)}`);
+			if (element.textures.pressed)
+				styleParts.push(`PressedBackground: ${formatBackground(element.textures.pressed)}`);
 			if (element.textures.disabled) {
-				stateParts.push(`Disabled: (Background: "${escapeUiString(element.textures.disabled)}")`);
+				styleParts.push(`DisabledBackground: ${formatBackground(element.textures.disabled)}`);
+			}
+			if (dropdown.panelBackground)
+				styleParts.push(`PanelBackground: ${formatBackground(dropdown.panelBackground)}`);
+			styleParts.push(`EntryHeight: ${dropdown.entryHeight}`);
+			if (element.labelStyle) {
+				const labelParts = formatLabelStyleParts({ ...element.labelStyle, wrap: undefined, valign: undefined });
+				if (labelParts.length > 0) styleParts.push(`LabelStyle: (${labelParts.join(", ")})`);
+			}
+			lines.push(`${indent(level + 1)}Style: DropdownBoxStyle(${styleParts.join(", ")});`);
+			appendCommonProperties({ level: level + 1, element, includeDisabled: true });
+			for (const entry of dropdown.entries) {
+				lines.push(`${indent(level + 1)}DropdownEntry {`);
+				lines.push(`${indent(level + 2)}Text: "${escapeUiString(entry.label)}";`);
+				lines.push(`${indent(level + 2)}Value: "${escapeUiString(entry.value)}";`);
+				if (entry.disabled) lines.push(`${indent(level + 2)}Disabled: true;`);
+				lines.push(`${indent(level + 1)}}`);
+			}
+			lines.push(`${indent(level)}}`);
+		} else if (element.range) {
+			// Ranges are captured as a whole, so their children are part of the track and fill textures
+			const { range } = element;
+			lines.push(`${indent(level)}${range.kind} #${element.id} {`);
+			appendAnchor(level + 1, anchorValues);
+			if (range.kind === "ProgressBar" || range.kind === "CircularProgressBar") {
+				const span = range.max - range.min;
+				const fraction = span > 0 ? Math.min(1, Math.max(0, (range.value - range.min) / span)) : 0;
+				lines.push(`${indent(level + 1)}Background: ${formatBackground(element.textures.default!)};`);
+				if (range.fillTexturePath) {
+					lines.push(`${indent(level + 1)}BarTexturePath: "${escapeUiString(range.fillTexturePath)}";`);
+				}
+				lines.push(`${indent(level + 1)}Value: ${formatUiNumber(fraction)};`);
+			} else {
+				lines.push(`${indent(level + 1)}Min: ${formatUiNumber(range.min)};`);
+				lines.push(`${indent(level + 1)}Max: ${formatUiNumber(range.max)};`);
+				lines.push(`${indent(level + 1)}Value: ${formatUiNumber(range.value)};`);
+				if (range.step !== null) {
+					lines.push(`${indent(level + 1)}Step: ${formatUiNumber(range.step)};`);
+				}
+				const styleParts = [`Background: ${formatBackground(element.textures.default!)}`];
+				if (range.fillTexturePath) styleParts.push(`Fill: "${escapeUiString(range.fillTexturePath)}"`);
+				if (range.handle) {
+					styleParts.push(`Handle: "${escapeUiString(range.handle.texturePath)}"`);
+					styleParts.push(`HandleWidth: ${range.handle.width}`, `HandleHeight: ${range.handle.height}`);
+				}
+				lines.push(`${indent(level + 1)}Style: SliderStyle(${styleParts.join(", ")});`);
+			}
+			appendCommonProperties({ level: level + 1, element, includeDisabled: !range.kind.endsWith("ProgressBar") });
+			lines.push(`${indent(level)}}`);
+		} else if (element.textField) {
+			const { textField } = element;
+			lines.push(`${indent(level)}${textField.kind} #${element.id} {`);
+			appendAnchor(level + 1, anchorValues);
+			appendPadding(level + 1, contentInsets);
+			lines.push(`${indent(level + 1)}Background: ${formatBackground(element.textures.default!)};`);
+			if (textField.value !== null) {
+				lines.push(`${indent(level + 1)}Value: "${escapeUiString(textField.value)}";`);
+			}
+			if (textField.placeholder !== null) {
+				lines.push(`${indent(level + 1)}PlaceholderText: "${escapeUiString(textField.placeholder)}";`);
+			}
+			// Fields lay out their own text, so alignment and wrapping stay with the engine
+			const fieldStyle: LabelStyle = { ...element.labelStyle, align: undefined, valign: undefined, wrap: undefined };
+			const styleParts = formatLabelStyleParts(fieldStyle);
+			if (styleParts.length > 0) {
+				lines.push(`${indent(level + 1)}Style: (${styleParts.join(", ")});`);
+			}
+			if (textField.placeholderColor) {
+				const placeholderParts = formatLabelStyleParts({ ...fieldStyle, textColor: textField.placeholderColor });
+				lines.push(`${indent(level + 1)}PlaceholderStyle: (${placeholderParts.join(", ")});`);
+			}
+			if (textField.maxLength !== null) {
+				lines.push(`${indent(level + 1)}MaxLength: ${textField.maxLength};`);
+			}
+			if (textField.password) {
+				lines.push(`${indent(level + 1)}PasswordChar: "${TEXT_FIELD_PASSWORD_CHAR}";`);
+			}
+			appendCommonProperties({ level: level + 1, element });
+			lines.push(`${indent(level)}}`);
+		} else if (element.toggle) {
+			const { toggle } = element;
+			lines.push(`${indent(level)}${toggle.kind} #${element.id} {`);
+			appendAnchor(level + 1, anchorValues);
+			if (hasChildren) {
+				appendPadding(level + 1, contentInsets);
+			}
+			if (toggle.checked) {
+				lines.push(`${indent(level + 1)}Value: true;`);
 			}
-			lines.push(`${indent(level + 1)}Style: ButtonStyle(${stateParts.join(", ")});`);
+			lines.push(`${indent(level + 1)}Style: ${formatCheckBoxStyle(element.textures, toggle.checkedTextures)};`);
 			appendCommonProperties({ level: level + 1, element, includeDisabled: true });
 			if (hasChildren) {
 				buildChildrenWithSpacing(
@@ -287,16 +926,83 @@ export function buildUiFile(elements: GeneratedElement[], viewport: Viewport, ha
 				);
 			}
 			lines.push(`${indent(level)}}`);
-		} else if (shouldUseGroup) {
+		} else if (element.isButton) {
+			lines.push(`${indent(level)}${element.tab ? "TabButton" : "Button"} #${element.id} {`);
+			appendAnchor(level + 1, anchorValues);
+			if (hasChildren) {
+				appendPadding(level + 1, contentInsets);
+			}
+			lines.push(`${indent(level + 1)}Style: ${shareStyle("Button", formatButtonStyle(element.textures))};`);
+			if (element.tab) {
+				lines.push(
+					`${indent(level + 1)}SelectedStyle: ${shareStyle("Button", formatButtonStyle(element.tab.activeTextures))};`,
+				);
+			}
+			appendCommonProperties({ level: level + 1, element, includeDisabled: true });
+			if (hasChildren) {
+				buildChildrenWithSpacing(
+					element.children,
+					element.rect,
+					contentInsets,
+					level + 1,
+					null,
+					element.spacing,
+					true,
+				);
+			}
+			lines.push(`${indent(level)}}`);
+		} else if (shouldUseGroup && element.scroll) {
+			const { scroll } = element;
+			const vertical = scroll.axis === "y";
+			const stacked = scroll.stacked && !element.children.some(c => c.layoutMode === "none");
 			lines.push(`${indent(level)}Group #${element.id} {`);
 			appendAnchor(level + 1, anchorValues);
+			lines.push(`${indent(level + 1)}LayoutMode: ${element.layoutMode};`);
+			lines.push(`${indent(level + 1)}ScrollbarStyle: ${scroll.scrollbarStyle};`);
+			lines.push(`${indent(level + 1)}KeepScrollPosition: true;`);
+			lines.push(`${indent(level + 1)}MouseWheelScrollBehaviour: ${vertical ? "VerticalOnly" : "HorizontalOnly"};`);
+			appendPadding(level + 1, contentInsets);
+			lines.push(`${indent(level + 1)}Background: ${formatBackground(element.textures.default!)};`);
+			appendCommonProperties({ level: level + 1, element });
+			if (stacked) {
+				buildChildrenWithSpacing(
+					element.children,
+					element.rect,
+					contentInsets,
+					level + 1,
+					element.layoutMode,
+					element.spacing,
+					insideButton,
+				);
+			} else {
+				// Children that don't form a plain stack keep absolute anchors inside a single
+				// content group sized to the full scrollable extent.
+				const contentRect: Rect = {
+					x: element.rect.x + contentInsets.left,
+					y: element.rect.y + contentInsets.top,
+					width: vertical ? containerWidthOf(element.rect, contentInsets) : scroll.contentSize,
+					height: vertical ? scroll.contentSize : containerHeightOf(element.rect, contentInsets),
+				};
+				lines.push(`${indent(level + 1)}Group #${element.id}Content {`);
+				appendAnchor(level + 2, { width: contentRect.width, height: contentRect.height });
+				buildChildrenWithSpacing(element.children, contentRect, zeroInsets(), level + 2, null, 0, insideButton);
+				lines.push(`${indent(level + 1)}}`);
+			}
+			lines.push(`${indent(level)}}`);
+		} else if (shouldUseGroup) {
+			lines.push(`${indent(level)}${element.isTabs ? "TabNavigation" : "Group"} #${element.id} {`);
+			appendAnchor(level + 1, anchorValues);
+			const selectedTab = element.isTabs ? element.children.find(child => child.tab?.active) : undefined;
+			if (selectedTab) {
+				lines.push(`${indent(level + 1)}SelectedTab: "${selectedTab.id}";`);
+			}
 			const hasAbsoluteChild = element.children.some(c => c.layoutMode === "none");
 			const effectiveLayoutMode = hasAbsoluteChild ? null : element.layoutMode;
-			if (effectiveLayoutMode && effectiveLayoutMode !== "none" && hasChildren) {
+			if (effectiveLayoutMode && effectiveLayoutMode !== "none" && isContainer) {
 				lines.push(`${indent(level + 1)}LayoutMode: ${effectiveLayoutMode};`);
 			}
 			appendPadding(level + 1, contentInsets);
-			lines.push(`${indent(level + 1)}Background: "${escapeUiString(element.textures.default!)}";`);
+			lines.push(`${indent(level + 1)}Background: ${formatBackground(element.textures.default!)};`);
 			appendCommonProperties({ level: level + 1, element });
 			buildChildrenWithSpacing(
 				element.children,
@@ -311,36 +1017,88 @@ export function buildUiFile(elements: GeneratedElement[], viewport: Viewport, ha
 		} else {
 			lines.push(`${indent(level)}Group #${element.id} {`);
 			appendAnchor(level + 1, anchorValues);
-			lines.push(`${indent(level + 1)}Background: "${escapeUiString(element.textures.default!)}";`);
+			lines.push(`${indent(level + 1)}Background: ${formatBackground(element.textures.default!)};`);
 			appendCommonProperties({ level: level + 1, element });
 			lines.push(`${indent(level)}}`);
 		}
 		if (element.selectedTexture) {
-			lines.push(`${indent(level)}Group #${element.id}Selected {`);
-			appendAnchor(level + 1, anchorValues);
-			lines.push(`${indent(level + 1)}Background: "${escapeUiString(element.selectedTexture)}";`);
-			lines.push(`${indent(level + 1)}Visible: false;`);
-			lines.push(`${indent(level)}}`);
+			appendHiddenVariant(level, `${element.id}Selected`, anchorValues, element.selectedTexture);
 		}
 		if (element.focusTexture) {
-			lines.push(`${indent(level)}Group #${element.id}Focus {`);
-			appendAnchor(level + 1, anchorValues);
-			lines.push(`${indent(level + 1)}Background: "${escapeUiString(element.focusTexture)}";`);
-			lines.push(`${indent(level + 1)}Visible: false;`);
-			lines.push(`${indent(level)}}`);
+			appendHiddenVariant(level, `${element.id}Focus`, anchorValues, element.focusTexture);
+		}
+		for (const variant of element.customStates) {
+			const variantId = `${element.id}${toPascalCase(variant.name)}`;
+			if (element.isButton) {
+				// Buttons keep their interaction; custom states become named styles to swap in from Java
+				definitions.push(`@${variantId}Style = ${formatButtonStyle(variant.textures)};`);
+			} else {
+				appendHiddenVariant(level, variantId, anchorValues, variant.textures.default!);
+			}
 		}
 	};
-	if (hasSceneBlur) {
-		lines.push("SceneBlur {}");
-	}
-	lines.push("Group #Root {");
-	lines.push(`${indent(1)}Anchor: (Full: 0);`);
-	const rootRect: Rect = { x: 0, y: 0, width: viewport.width, height: viewport.height };
-	const rootInsets = zeroInsets();
-	for (const element of elements) {
-		buildElement(element, rootRect, rootInsets, 1, null);
+	if (root.kind === "row") {
+		const { container } = root;
+		const containerInsets = sumInsets(container.padding, container.border);
+		for (const element of elements) {
+			buildElement(element, container.rect, containerInsets, 0, container.layoutMode);
+		}
+	} else {
+		const { viewport, hasSceneBlur } = root;
+		if (hasSceneBlur) {
+			lines.push("SceneBlur {}");
+		}
+		lines.push("Group #Root {");
+		lines.push(`${indent(1)}Anchor: (Full: 0);`);
+		const rootRect: Rect = { x: 0, y: 0, width: viewport.width, height: viewport.height };
+		const rootInsets = zeroInsets();
+		for (const element of elements) {
+			buildElement(element, rootRect, rootInsets, 1, null);
+		}
+		lines.push("}");
 	}
-	lines.push("}");
 	lines.push("");
-	return lines.join("\n");
+
+	const instanceLines = renderedInstances.map(instance => instance.lines);
+	const templateNames = [...new Set(templateOf.values())];
+	for (const name of templateNames) {
+		const members = renderedInstances
+			.map((instance, n) => ({ ...instance, n }))
+			.filter(instance => templateOf.get(instance.element) === name);
+		if (members.length === 0) continue;
+		const template = buildTemplate(
+			name,
+			members.map(member => member.lines.map(line => line.slice(member.level * 2))),
+		);
+		if ("error" in template) {
+			if (members[0]!.element.component) {
+				onWarning(`component ${name}: ${template.error}; writing its instances out in full.`);
+			}
+			continue;
+		}
+		if (definitions.length > 0) definitions.push("");
+		definitions.push(...template.definition);
+		// Inside an instance, elements carry the ids of the template's first occurrence
+		const selectInstance = (instance: GeneratedElement, element: GeneratedElement, first: GeneratedElement) => {
+			if (element !== instance) selectors.set(element, `#${instance.id} #${first.id}`);
+			element.children.forEach((child, n) => {
+				selectInstance(instance, child, first.children[n] ?? child);
+			});
+		};
+		members.forEach((member, i) => {
+			instanceLines[member.n] = template.instances[i]!.map(line => `${indent(member.level)}${line}`);
+			selectInstance(member.element, member.element, members[0]!.element);
+		});
+	}
+	const output = lines.flatMap(line =>
+		line.startsWith(INSTANCE_MARKER) ? instanceLines[Number(line.slice(INSTANCE_MARKER.length))]! : [line],
+	);
+
+	if (definitions.length > 0) {
+		output.unshift(...definitions, "");
+	}
+	if (output.some(line => line.includes(`${COMMON_UI_ALIAS}.@`))) {
+		output.unshift(`${COMMON_UI_ALIAS} = "${escapeUiString(commonUiPath)}";`, "");
+	}
+	return output.join("\n");
 }
@@ -5,7 +5,8 @@ export type ValueSchema =
 	| { kind: "scalar"; scalar: ScalarValueType }
 	| { kind: "enum"; enumName: string; values: readonly string[] }
 	| { kind: "object"; objectType: string }
-	| { kind: "union"; variants: readonly ValueSchema[] };
+	| { kind: "union"; variants: readonly ValueSchema[] }
+	| { kind: "list"; item: ValueSchema };
 
 export type PropertySchema = {
 	type: ValueSchema;
@@ -25,6 +26,7 @@ const scalar = (scalarType: ScalarValueType): ValueSchema => ({ kind: "scalar",
 const enumValue = (enumName: string, values: readonly string[]): ValueSchema => ({ kind: "enum", enumName, values });
 const objectValue = (objectType: string): ValueSchema => ({ kind: "object", objectType });
 const unionValue = (...variants: ValueSchema[]): ValueSchema => ({ kind: "union", variants });
+const listValue = (item: ValueSchema): ValueSchema => ({ kind: "list", item });
 const property = (type: ValueSchema, docsType: string): PropertySchema => ({ type, docsType });
 
 export const UI_ENUMS = {
@@ -102,6 +104,68 @@ export const OBJECT_SCHEMAS: Readonly<Record<string, ObjectSchema>> = {
 			Sounds: property(anyValue(), "ButtonSounds"),
 		},
 	},
+	CheckBoxStyleState: {
+		fields: {
+			DefaultBackground: property(backgroundValue, "PatchStyle / String"),
+			HoveredBackground: property(backgroundValue, "PatchStyle / String"),
+			PressedBackground: property(backgroundValue, "PatchStyle / String"),
+			DisabledBackground: property(backgroundValue, "PatchStyle / String"),
+			ChangedSound: property(anyValue(), "SoundStyle"),
+		},
+	},
+	CheckBoxStyle: {
+		fields: {
+			Unchecked: property(objectValue("CheckBoxStyleState"), "CheckBoxStyleState"),
+			Checked: property(objectValue("CheckBoxStyleState"), "CheckBoxStyleState"),
+		},
+	},
+	SliderStyle: {
+		fields: {
+			Background: property(backgroundValue, "PatchStyle / String"),
+			Fill: property(backgroundValue, "PatchStyle / String"),
+			Handle: property(scalar("uiPath"), "UI Path (String)"),
+			HandleWidth: property(scalar("integer"), "Integer"),
+			HandleHeight: property(scalar("integer"), "Integer"),
+			Sounds: property(anyValue(), "SliderSounds"),
+		},
+	},
+	DropdownBoxStyle: {
+		fields: {
+			DefaultBackground: property(backgroundValue, "PatchStyle / String"),
+			HoveredBackground: property(backgroundValue, "PatchStyle / String"),
+			PressedBackground: property(backgroundValue, "PatchStyle / String"),
+			DisabledBackground: property(backgroundValue, "PatchStyle / String"),
+			PanelBackground: property(backgroundValue, "PatchStyle / String"),
+			EntryHeight: property(scalar("integer"), "Integer"),
+			LabelStyle: property(objectValue("LabelStyle"), "LabelStyle"),
+			EntryLabelStyle: property(objectValue("LabelStyle"), "LabelStyle"),
+			Sounds: property(anyValue(), "DropdownBoxSounds"),
+		},
+	},
+	ScrollbarStyle: {
+		fields: {
+			Size: property(scalar("integer"), "Integer"),
+			Spacing: property(scalar("integer"), "Integer"),
+			OnlyVisibleWhenHovered: property(scalar("boolean"), "Boolean"),
+			Background: property(backgroundValue, "PatchStyle / String"),
+			Handle: property(backgroundValue, "PatchStyle / String"),
+			HoveredHandle: property(backgroundValue, "PatchStyle / String"),
+			DraggedHandle: property(backgroundValue, "PatchStyle / String"),
+		},
+	},
+	LabelSpan: {
+		fields: {
+			Text: property(scalar("string"), "String"),
+			IsUppercase: property(scalar("boolean"), "Boolean"),
+			IsBold: property(scalar("boolean"), "Boolean"),
+			IsItalic: property(scalar("boolean"), "Boolean"),
+			IsUnderlined: property(scalar("boolean"), "Boolean"),
+			IsMonospace: property(scalar("boolean"), "Boolean"),
+			Color: property(scalar("color"), "Color"),
+			OutlineColor: property(scalar("color"), "Color"),
+			Link: property(scalar("string"), "String"),
+		},
+	},
 	LabelStyle: {
 		fields: {
 			HorizontalAlignment: property(enumValue("LabelAlignment", UI_ENUMS.LabelAlignment), "LabelAlignment"),
@@ -119,6 +183,19 @@ export const OBJECT_SCHEMAS: Readonly<Record<string, ObjectSchema>> = {
 			Alignment: property(enumValue("LabelAlignment", UI_ENUMS.LabelAlignment), "LabelAlignment"),
 		},
 	},
+	InputFieldStyle: {
+		fields: {
+			FontName: property(scalar("string"), "Font Name (String)"),
+			FontSize: property(scalar("float"), "Float"),
+			TextColor: property(scalar("color"), "Color"),
+			OutlineColor: property(scalar("color"), "Color"),
+			LetterSpacing: property(scalar("float"), "Float"),
+			RenderUppercase: property(scalar("boolean"), "Boolean"),
+			RenderBold: property(scalar("boolean"), "Boolean"),
+			RenderItalics: property(scalar("boolean"), "Boolean"),
+			RenderUnderlined: property(scalar("boolean"), "Boolean"),
+		},
+	},
 };
 
 const commonElementProperties: Readonly<Record<string, PropertySchema>> = {
@@ -146,11 +223,38 @@ const commonElementProperties: Readonly<Record<string, PropertySchema>> = {
 	Overscroll: property(scalar("boolean"), "Boolean"),
 };
 
+const textFieldProperties: Readonly<Record<string, PropertySchema>> = {
+	Value: property(scalar("string"), "String"),
+	PlaceholderText: property(scalar("string"), "String"),
+	Style: property(objectValue("InputFieldStyle"), "InputFieldStyle"),
+	PlaceholderStyle: property(objectValue("InputFieldStyle"), "InputFieldStyle"),
+	MaxLength: property(scalar("integer"), "Integer"),
+	PasswordChar: property(scalar("string"), "Char"),
+	...commonElementProperties,
+};
+
+const sliderProperties = (numberType: ScalarValueType, docsType: string): Readonly<Record<string, PropertySchema>> => ({
+	Min: property(scalar(numberType), docsType),
+	Max: property(scalar(numberType), docsType),
+	Value: property(scalar(numberType), docsType),
+	Step: property(scalar(numberType), docsType),
+	Disabled: property(scalar("boolean"), "Boolean"),
+	Style: property(objectValue("SliderStyle"), "SliderStyle"),
+	...commonElementProperties,
+});
+
+const progressBarProperties: Readonly<Record<string, PropertySchema>> = {
+	Value: property(scalar("float"), "Float"),
+	BarTexturePath: property(scalar("uiPath"), "UI Path (String)"),
+	EffectTexturePath: property(scalar("uiPath"), "UI Path (String)"),
+	...commonElementProperties,
+};
+
 export const ELEMENT_SCHEMAS: Readonly<Record<string, ElementSchema>> = {
 	Group: {
 		properties: {
 			LayoutMode: property(enumValue("LayoutMode", UI_ENUMS.LayoutMode), "LayoutMode"),
-			ScrollbarStyle: property(anyValue(), "ScrollbarStyle"),
+			ScrollbarStyle: property(objectValue("ScrollbarStyle"), "ScrollbarStyle"),
 			...commonElementProperties,
 		},
 	},
@@ -162,10 +266,130 @@ export const ELEMENT_SCHEMAS: Readonly<Record<string, ElementSchema>> = {
 			...commonElementProperties,
 		},
 	},
+	CheckBox: {
+		properties: {
+			Value: property(scalar("boolean"), "Boolean"),
+			Disabled: property(scalar("boolean"), "Boolean"),
+			Style: property(objectValue("CheckBoxStyle"), "CheckBoxStyle"),
+			...commonElementProperties,
+		},
+	},
+	LabeledCheckBox: {
+		properties: {
+			LayoutMode: property(enumValue("LayoutMode", UI_ENUMS.LayoutMode), "LayoutMode"),
+			Value: property(scalar("boolean"), "Boolean"),
+			Disabled: property(scalar("boolean"), "Boolean"),
+			Style: property(objectValue("CheckBoxStyle"), "CheckBoxStyle"),
+			...commonElementProperties,
+		},
+	},
+	ToggleButton: {
+		properties: {
+			LayoutMode: property(enumValue("LayoutMode", UI_ENUMS.LayoutMode), "LayoutMode"),
+			Value: property(scalar("boolean"), "Boolean"),
+			Disabled: property(scalar("boolean"), "Boolean"),
+			Style: property(objectValue("CheckBoxStyle"), "CheckBoxStyle"),
+			...commonElementProperties,
+		},
+	},
+	TextField: {
+		properties: textFieldProperties,
+	},
+	CompactTextField: {
+		properties: textFieldProperties,
+	},
+	MultilineTextField: {
+		properties: textFieldProperties,
+	},
+	Slider: {
+		properties: sliderProperties("integer", "Integer"),
+	},
+	FloatSlider: {
+		properties: sliderProperties("float", "Float"),
+	},
+	SliderNumberField: {
+		properties: sliderProperties("float", "Float"),
+	},
+	ProgressBar: {
+		properties: progressBarProperties,
+	},
+	CircularProgressBar: {
+		properties: progressBarProperties,
+	},
+	DropdownBox: {
+		properties: {
+			Value: property(scalar("string"), "String"),
+			Disabled: property(scalar("boolean"), "Boolean"),
+			Style: property(objectValue("DropdownBoxStyle"), "DropdownBoxStyle"),
+			...commonElementProperties,
+		},
+	},
+	DropdownEntry: {
+		properties: {
+			Text: property(scalar("string"), "String"),
+			Value: property(scalar("string"), "String"),
+			Disabled: property(scalar("boolean"), "Boolean"),
+		},
+	},
+	TabNavigation: {
+		properties: {
+			LayoutMode: property(enumValue("LayoutMode", UI_ENUMS.LayoutMode), "LayoutMode"),
+			SelectedTab: property(scalar("string"), "String"),
+			...commonElementProperties,
+		},
+	},
+	TabButton: {
+		properties: {
+			LayoutMode: property(enumValue("LayoutMode", UI_ENUMS.LayoutMode), "LayoutMode"),
+			Disabled: property(scalar("boolean"), "Boolean"),
+			Style: property(objectValue("ButtonStyle"), "ButtonStyle"),
+			SelectedStyle: property(objectValue("ButtonStyle"), "ButtonStyle"),
+			...commonElementProperties,
+		},
+	},
+	ItemSlot: {
+		properties: {
+			...commonElementProperties,
+		},
+	},
+	ItemSlotButton: {
+		properties: {
+			Disabled: property(scalar("boolean"), "Boolean"),
+			Style: property(objectValue("ButtonStyle"), "ButtonStyle"),
+			...commonElementProperties,
+		},
+	},
+	ItemGrid: {
+		properties: {
+			SlotsPerRow: property(scalar("integer"), "Integer"),
+			RowCount: property(scalar("integer"), "Integer"),
+			SlotSize: property(scalar("integer"), "Integer"),
+			SlotSpacing: property(scalar("integer"), "Integer"),
+			SlotBackground: property(backgroundValue, "PatchStyle / String"),
+			...commonElementProperties,
+		},
+	},
+	ItemIcon: {
+		properties: {
+			...commonElementProperties,
+		},
+	},
+	AssetImage: {
+		properties: {
+			AssetPath: property(scalar("uiPath"), "UI Path (String)"),
+			...commonElementProperties,
+		},
+	},
+	Sprite: {
+		properties: {
+			TexturePath: property(scalar("uiPath"), "UI Path (String)"),
+			...commonElementProperties,
+		},
+	},
 	Label: {
 		properties: {
 			Text: property(scalar("string"), "String"),
-			TextSpans: property(anyValue(), "List<LabelSpan>"),
+			TextSpans: property(listValue(objectValue("LabelSpan")), "List<LabelSpan>"),
 			Style: property(objectValue("LabelStyle"), "LabelStyle"),
 			...commonElementProperties,
 		},
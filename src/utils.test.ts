@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+
+import { isTranslationKey, parseTextShadow, resolveSourceTexture } from "./utils.js";
+
+describe("resolveSourceTexture", () => {
+	const baseHref = "file:///project/ui-source/";
+
+	test("resolves relative values against the page's base URL", () => {
+		expect(resolveSourceTexture("textures/frame.png", baseHref)).toBe("/project/ui-source/textures/frame.png");
+		expect(resolveSourceTexture("../art/frame%20big.png", baseHref)).toBe("/project/art/frame big.png");
+	});
+
+	test("accepts absolute file URLs", () => {
+		expect(resolveSourceTexture("file:///art/frame.png", baseHref)).toBe("/art/frame.png");
+	});
+
+	test("rejects values that don't name a local file", () => {
+		expect(resolveSourceTexture("https://example.com/frame.png", baseHref)).toBeNull();
+		expect(resolveSourceTexture("data:image/png;base64,AAAA", baseHref)).toBeNull();
+	});
+});
+
+describe("isTranslationKey", () => {
+	test("accepts dotted keys", () => {
+		expect(isTranslationKey("shop.buy_button")).toBe(true);
+		expect(isTranslationKey("menu.item-2")).toBe(true);
+	});
+
+	test("rejects keys a .ui document can't reference", () => {
+		expect(isTranslationKey("")).toBe(false);
+		expect(isTranslationKey("shop title")).toBe(false);
+		expect(isTranslationKey("shop/title")).toBe(false);
+	});
+});
+
+describe("parseTextShadow", () => {
+	test("returns no layers for none", () => {
+		expect(parseTextShadow("none")).toEqual([]);
+		expect(parseTextShadow("")).toEqual([]);
+	});
+
+	test("reads the color, offsets and blur of a computed layer", () => {
+		expect(parseTextShadow("rgb(0, 0, 0) 2px 3px 4px")).toEqual([
+			{ color: "rgb(0, 0, 0)", offsetX: 2, offsetY: 3, blur: 4 },
+		]);
+	});
+
+	test("splits layers on commas outside color functions", () => {
+		expect(parseTextShadow("rgba(255, 0, 0, 0.5) -1px 0px 0px, #00ff00 0px 1px")).toEqual([
+			{ color: "rgba(255, 0, 0, 0.5)", offsetX: -1, offsetY: 0, blur: 0 },
+			{ color: "#00ff00", offsetX: 0, offsetY: 1, blur: 0 },
+		]);
+	});
+
+	test("falls back to currentcolor and a zero blur", () => {
+		expect(parseTextShadow("1px 1px")).toEqual([{ color: "currentcolor", offsetX: 1, offsetY: 1, blur: 0 }]);
+	});
+});
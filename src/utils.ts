@@ -1,7 +1,9 @@
 import { createHash } from "node:crypto";
 import { promises as fsp } from "node:fs";
 import path from "node:path";
+import { fileURLToPath } from "node:url";
 
+import { PROJECT_CONFIG_FILE } from "./constants.js";
 import type { Insets, Rect, Viewport } from "./types.js";
 
 export async function exists(filePath: string): Promise<boolean> {
@@ -19,7 +21,8 @@ export async function collectSharedInputFiles(inputDir: string): Promise<string[
 		const entries = await fsp.readdir(inputDir, { withFileTypes: true });
 		for (const entry of entries) {
 			if (!entry.isFile()) continue;
-			if (!entry.name.endsWith(".css") && !entry.name.endsWith(".js")) continue;
+			if (!entry.name.endsWith(".css") && !entry.name.endsWith(".js") && entry.name !== PROJECT_CONFIG_FILE)
+				continue;
 			files.push(path.join(inputDir, entry.name));
 		}
 	}
@@ -33,6 +36,41 @@ export async function collectSharedInputFiles(inputDir: string): Promise<string[
 	return files.sort((a, b) => a.localeCompare(b));
 }
 
+/** Path of the `@2x` variant that may sit next to an author-supplied texture. */
+export function hiresTexturePath(filePath: string): string {
+	return filePath.replace(/(@2x)?\.png$/i, "@2x.png");
+}
+
+/**
+ * File behind a `data-hy-texture*` value, resolved against the base URL the page is rendered
+ * with, or null when it doesn't name a local file.
+ */
+export function resolveSourceTexture(value: string, baseHref: string): string | null {
+	try {
+		const url = new URL(value, baseHref);
+		return url.protocol === "file:" ? fileURLToPath(url) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Source PNGs referenced through `data-hy-texture*` attributes, resolved like the page loads them.
+ * Part of the page hash so that repainted art is picked up.
+ */
+export async function collectSourceTextureFiles(htmlPath: string, baseHref: string): Promise<string[]> {
+	const html = await fsp.readFile(htmlPath, "utf8");
+	const files = new Set<string>();
+	for (const match of html.matchAll(/data-hy-texture(?:-[a-z-]+)?\s*=\s*["']([^"']+)["']/g)) {
+		const filePath = resolveSourceTexture(match[1]!, baseHref);
+		if (!filePath) continue;
+		for (const candidate of [filePath, hiresTexturePath(filePath)]) {
+			if (await exists(candidate)) files.add(candidate);
+		}
+	}
+	return [...files].sort((a, b) => a.localeCompare(b));
+}
+
 export async function hashFiles(filePaths: string[]): Promise<string> {
 	const hash = createHash("sha256");
 	for (const filePath of filePaths) {
@@ -57,6 +95,26 @@ export function pageHashFileName(htmlPath: string): string {
 	return `.hash-${sanitizePathSegment(pageName)}`;
 }
 
+export function pageLangFileName(htmlPath: string): string {
+	const pageName = path.basename(htmlPath, path.extname(htmlPath));
+	return `.lang-${sanitizePathSegment(pageName)}.json`;
+}
+
+export function pagePseudoLocaleFileName(htmlPath: string): string {
+	const pageName = path.basename(htmlPath, path.extname(htmlPath));
+	return `.pseudo-locale-${sanitizePathSegment(pageName)}.json`;
+}
+
+export function pageEventsFileName(htmlPath: string): string {
+	const pageName = path.basename(htmlPath, path.extname(htmlPath));
+	return `${sanitizePathSegment(pageName)}.events.json`;
+}
+
+export function pageStylesFileName(htmlPath: string): string {
+	const pageName = path.basename(htmlPath, path.extname(htmlPath));
+	return `.styles-${sanitizePathSegment(pageName)}.json`;
+}
+
 export function sanitizeId(value: string): string {
 	const cleaned = value.replace(/[^A-Za-z0-9]/g, "");
 	if (!cleaned) return "Element";
@@ -73,6 +131,14 @@ export function escapeRegExp(value: string): string {
 	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+// A `%key` translation reference in a .ui document
+export const TRANSLATION_PATTERN = /^%[A-Za-z0-9_.-]+$/;
+
+/** Whether `key` can be referenced as `%key`. */
+export function isTranslationKey(key: string): boolean {
+	return TRANSLATION_PATTERN.test(`%${key}`);
+}
+
 export function escapeUiString(value: string): string {
 	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
 }
@@ -169,6 +235,25 @@ export function uiColorToCss(value: string): string {
 	return `rgba(${r}, ${g}, ${b}, ${alpha})`;
 }
 
+/** Splits a computed `text-shadow` ("rgb(0, 0, 0) 1px 1px 0px, ...") into its layers. */
+export function parseTextShadow(
+	value: string,
+): Array<{ color: string; offsetX: number; offsetY: number; blur: number }> {
+	if (!value || value === "none") return [];
+	const layers: Array<{ color: string; offsetX: number; offsetY: number; blur: number }> = [];
+	for (const layer of value.split(/,(?![^(]*\))/)) {
+		const color = layer.match(/(?:rgba?|hsla?)\([^)]*\)|#[0-9a-f]{3,8}\b/i)?.[0] ?? "currentcolor";
+		const lengths = layer
+			.replace(color, "")
+			.trim()
+			.split(/\s+/)
+			.map(part => Number.parseFloat(part))
+			.filter(part => Number.isFinite(part));
+		layers.push({ color, offsetX: lengths[0] ?? 0, offsetY: lengths[1] ?? 0, blur: lengths[2] ?? 0 });
+	}
+	return layers;
+}
+
 export function zeroInsets(): Insets {
 	return { top: 0, right: 0, bottom: 0, left: 0 };
 }
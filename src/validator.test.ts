@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+
+import { type ImportedDocuments, validateUiDocument } from "./validator.js";
+
+const messages = (source: string) => validateUiDocument(source).issues.map(issue => issue.message);
+
+const cardTemplate = [
+	"@CardTemplate = Group {",
+	'  @TitleText = "A";',
+	"  Label #Title {",
+	"    Text: @TitleText;",
+	"  }",
+	"};",
+	"",
+];
+
+describe("validateUiDocument definitions and templates", () => {
+	test("accepts parameters and instance values that fit the properties they feed", () => {
+		const source = [
+			...cardTemplate,
+			"Group #Root {",
+			"  @CardTemplate #Card {}",
+			"  @CardTemplate #Card2 {",
+			"    @TitleText = %shop.title;",
+			"  }",
+			"}",
+		];
+		expect(messages(source.join("\n"))).toEqual([]);
+	});
+
+	test("validates instance values against the property the parameter feeds", () => {
+		const source = [...cardTemplate, "Group #Root {", "  @CardTemplate #Card {", "    @TitleText = 12;", "  }", "}"];
+		expect(validateUiDocument(source.join("\n")).issues).toMatchObject([
+			{ line: 10, code: "invalid-value", element: "Label", property: "Text" },
+		]);
+	});
+
+	test("validates instance values for parameters that feed a property through another parameter", () => {
+		const source = [
+			"@CardTemplate = Group {",
+			'  @TitleText = "A";',
+			"  @Heading = @TitleText;",
+			"  Label #Title {",
+			"    Text: @Heading;",
+			"  }",
+			"};",
+			"Group #Root {",
+			"  @CardTemplate #Card {",
+			"    @TitleText = 12;",
+			"  }",
+			"}",
+		];
+		expect(validateUiDocument(source.join("\n")).issues).toMatchObject([
+			{ line: 10, code: "invalid-value", element: "Label", property: "Text" },
+		]);
+	});
+
+	test("validates instance values for parameters that feed a nested template's parameter", () => {
+		const source = [
+			...cardTemplate,
+			"@PanelTemplate = Group {",
+			'  @PanelTitle = "P";',
+			"  @CardTemplate #Card {",
+			"    @TitleText = @PanelTitle;",
+			"  }",
+			"};",
+			"Group #Root {",
+			"  @PanelTemplate #Panel {",
+			"    @PanelTitle = 12;",
+			"  }",
+			"}",
+		];
+		expect(validateUiDocument(source.join("\n")).issues).toMatchObject([
+			{ line: 16, code: "invalid-value", element: "Label", property: "Text" },
+		]);
+	});
+
+	test("reports instance values for parameters the template doesn't have", () => {
+		const source = [...cardTemplate, "Group #Root {", "  @CardTemplate #Card {", '    @Subtitle = "B";', "  }", "}"];
+		expect(messages(source.join("\n"))).toEqual(["@Subtitle is not a parameter of template @CardTemplate."]);
+	});
+
+	test("reports empty and unbalanced definitions", () => {
+		expect(messages("@P = ;")).toEqual(["@P has no value."]);
+		expect(messages("@Q = ((((;")).toEqual(["Definition @Q has unbalanced parentheses or brackets."]);
+		expect(messages("@R = (Top: 1));")).toEqual(["@R has unbalanced parentheses or brackets."]);
+	});
+
+	test("resolves local references and reports undefined ones", () => {
+		expect(messages(["@Color = #ffffff;", "Group #Root {", "  Background: @Color;", "}"].join("\n"))).toEqual([]);
+		expect(messages(["@Color = 12;", "Group #Root {", "  Background: @Color;", "}"].join("\n"))).toEqual([
+			expect.stringContaining("got 12 (from @Color)."),
+		]);
+		expect(messages(["Group #Root {", "  Label #Title {", "    Text: @Nope;", "  }", "}"].join("\n"))).toEqual([
+			"@Nope is not defined in this document or the enclosing template.",
+		]);
+	});
+
+	test("requires template definitions to be closed with };", () => {
+		const source = ["@CardTemplate = Group {", "  Label #Title {}", "}"];
+		expect(messages(source.join("\n"))).toEqual(['Template definition opened on line 1 must be closed with "};".']);
+	});
+});
+
+describe("validateUiDocument imported references", () => {
+	const common = new Map([
+		[
+			"Common.ui",
+			new Map([
+				["TitleText", '"Shop"'],
+				["TitleSize", "12"],
+			]),
+		],
+	]);
+	const page = (value: string, importPath = "Common.ui") =>
+		[`$C = "${importPath}";`, "Group #Root {", "  Label #Title {", `    Text: ${value};`, "  }", "}"].join("\n");
+	const importedMessages = (source: string, importedDocuments: ImportedDocuments = common) =>
+		validateUiDocument(source, "<inline>", importedDocuments).issues.map(issue => issue.message);
+
+	test("accepts references whose imported value fits the property", () => {
+		expect(importedMessages(page("$C.@TitleText"))).toEqual([]);
+	});
+
+	test("validates the imported value in place", () => {
+		expect(importedMessages(page("$C.@TitleSize"))).toEqual([expect.stringContaining("(from $C.@TitleSize)")]);
+	});
+
+	test("reports definitions missing from the imported document and aliases that aren't imported", () => {
+		expect(importedMessages(page("$C.@Subtitle"))).toEqual([
+			"$C.@Subtitle is not defined in the document imported as $C.",
+		]);
+		expect(importedMessages(page("$D.@TitleText"))).toEqual(["$D is not imported in this document."]);
+	});
+
+	test("leaves imports that weren't followed opaque and reports unreadable ones", () => {
+		expect(importedMessages(page("$C.@Subtitle", "Other.ui"))).toEqual([]);
+		expect(importedMessages(page("$C.@Subtitle"), new Map([["Common.ui", null]]))).toEqual([
+			'Imported document "Common.ui" could not be read.',
+		]);
+	});
+});
+
+describe("validateUiDocument TextSpans", () => {
+	const label = (spans: string) =>
+		["Group #Root {", "  Label #Title {", `    TextSpans: ${spans};`, "  }", "}"].join("\n");
+
+	test("accepts lists of LabelSpan objects", () => {
+		expect(messages(label('[(Text: "Buy "), (Text: "now", IsBold: true, Color: #ffcc00)]'))).toEqual([]);
+	});
+
+	test("reports unknown LabelSpan fields and invalid field values", () => {
+		expect(messages(label('[(Text: "Buy", Bold: true)]'))).toEqual([
+			expect.stringContaining('Label.TextSpans[0] contains unknown field "Bold".'),
+		]);
+		expect(messages(label('[(Text: "Buy", Color: yellow)]'))).toEqual([
+			expect.stringContaining("Label.TextSpans[0].Color must be a valid color literal"),
+		]);
+	});
+
+	test("requires a list", () => {
+		expect(messages(label('(Text: "Buy")'))).toEqual([expect.stringContaining("must be a list literal")]);
+	});
+});
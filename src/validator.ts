@@ -2,12 +2,19 @@ import { promises as fsp } from "node:fs";
 import path from "node:path";
 
 import { type PropertySchema, type ScalarValueType, UI_SCHEMA, type ValueSchema } from "./ui-schema.js";
+import { TRANSLATION_PATTERN } from "./utils.js";
 
 export type ValidationIssue = {
 	file: string;
 	line: number;
 	column: number;
-	code: "unknown-element" | "unknown-property" | "invalid-value" | "syntax";
+	code:
+		| "unknown-element"
+		| "unknown-property"
+		| "unknown-template"
+		| "unresolved-reference"
+		| "invalid-value"
+		| "syntax";
 	element?: string;
 	property?: string;
 	message: string;
@@ -18,17 +25,32 @@ export type ValidationResult = {
 	issues: ValidationIssue[];
 };
 
+/** Top-level `@Name = value;` definitions of each imported document, keyed by the path as written; null when unreadable. */
+export type ImportedDocuments = Map<string, Map<string, string> | null>;
+
+type TemplateInfo = {
+	name: string;
+	elementType: string;
+	parameters: Map<string, string | null>; // null: invalid, reported where it is defined
+	// The properties each parameter feeds, which its instance values are validated against
+	usages: Map<string, Array<{ elementType: string; propertyName: string }>>;
+};
+
 type ElementFrame = {
 	type: string;
 	line: number;
+	template?: TemplateInfo; // a template definition, closed by "};"
+	instanceOf?: TemplateInfo;
 };
 
-type PendingProperty = {
-	elementType: string;
-	propertyName: string;
+type PendingValue = {
+	subject: string;
+	elementType?: string;
+	propertyName?: string;
 	line: number;
 	column: number;
 	rawValue: string;
+	complete: (value: string) => void;
 };
 
 type ObjectField = {
@@ -49,16 +71,126 @@ const IDENTIFIER_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
 const STRING_LITERAL_PATTERN = /^"(?:\\.|[^"\\])*"$/;
 const INTEGER_PATTERN = /^-?\d+$/;
 const FLOAT_PATTERN = /^-?\d+(?:\.\d+)?$/;
-const TRANSLATION_PATTERN = /^%[A-Za-z0-9_.-]+$/;
 const REFERENCE_PATTERN = /^[@$%][A-Za-z0-9_.@]+$/;
 const BARE_STRING_PATTERN = /^[A-Za-z_][A-Za-z0-9_.[\]]*$/;
+const IMPORT_PATTERN = /^(\$[A-Za-z][A-Za-z0-9_]*)\s*=\s*"((?:\\.|[^"\\])*)"\s*;$/;
+const IMPORTED_REFERENCE_PATTERN = /^(\$[A-Za-z][A-Za-z0-9_]*)\.@([A-Za-z][A-Za-z0-9_]*)$/;
+const LOCAL_REFERENCE_PATTERN = /^@([A-Za-z][A-Za-z0-9_]*)$/;
+const DEFINITION_PATTERN = /^@([A-Za-z][A-Za-z0-9_]*)\s*=\s*([\s\S]*)$/;
 const COLOR_PATTERN = /^#[0-9a-fA-F]{6}(?:\((?:0(?:\.\d+)?|1(?:\.0+)?)\)|[0-9a-fA-F]{2})?$/;
 
-export function validateUiDocument(source: string, filePath: string = "<inline>"): ValidationResult {
+/**
+ * Validates one document. References into imported documents (`$C.@Name`) are checked against
+ * `importedDocuments` and their values validated in place; imports missing from the map are not
+ * followed. Local references (`@Name`) resolve to the enclosing template's parameters, then to the
+ * document's top-level definitions; template instances' parameter values are validated against the
+ * properties the parameters feed.
+ */
+export function validateUiDocument(
+	source: string,
+	filePath: string = "<inline>",
+	importedDocuments: ImportedDocuments = new Map(),
+): ValidationResult {
 	const issues: ValidationIssue[] = [];
 	const lines = source.split(/\r?\n/);
 	const stack: ElementFrame[] = [];
-	let pending: PendingProperty | null = null;
+	const templates = new Map<string, TemplateInfo>();
+	const aliases = new Map<string, Map<string, string> | undefined>(); // undefined: not followed
+	const definitions: Map<string, string | null> = parseUiDefinitions(source);
+	let pending: PendingValue | null = null;
+
+	const resolveLocal = (name: string): string | null | undefined => {
+		for (let index = stack.length - 1; index >= 0; index -= 1) {
+			const parameter = stack[index]!.template?.parameters.get(name);
+			if (parameter !== undefined) return parameter;
+		}
+		return definitions.get(name);
+	};
+
+	// A parameter feeding a property directly, through another parameter or through a nested template's
+	// parameter is checked against that property wherever its template is instantiated
+	const recordUsage = (value: string, usage: { elementType: string; propertyName: string }) => {
+		const seen = new Set<string>();
+		let name = value.match(LOCAL_REFERENCE_PATTERN)?.[1];
+		while (name && !seen.has(name)) {
+			seen.add(name);
+			const parameterName: string = name;
+			const template = [...stack].reverse().find(frame => frame.template?.parameters.has(parameterName))?.template;
+			if (!template) return;
+			const usages = template.usages.get(name) ?? [];
+			usages.push(usage);
+			template.usages.set(name, usages);
+			name = template.parameters.get(name)?.match(LOCAL_REFERENCE_PATTERN)?.[1];
+		}
+	};
+	const validateProperty = (
+		elementType: string,
+		propertyName: string,
+		line: number,
+		column: number,
+		value: string,
+	) => {
+		recordUsage(value, { elementType, propertyName });
+		validatePropertyValue({
+			filePath,
+			line,
+			column,
+			elementType,
+			propertyName,
+			value,
+			aliases,
+			resolveLocal,
+			issues,
+		});
+	};
+	const validateDefinition = (name: string, line: number, column: number, value: string) => {
+		const frame = stack[stack.length - 1];
+		const problem = !value
+			? `@${name} has no value.`
+			: !hasBalancedBrackets(value)
+				? `@${name} has unbalanced parentheses or brackets.`
+				: frame && !frame.template && !frame.instanceOf
+					? `@${name} can only be defined at the top level, in a template definition or in a template instance.`
+					: null;
+		if (problem) {
+			issues.push({ file: filePath, line, column, code: "syntax", message: problem });
+			if (frame?.template) frame.template.parameters.set(name, null);
+			else if (!frame) definitions.set(name, null);
+			return;
+		}
+		if (frame?.template) {
+			frame.template.parameters.set(name, value);
+			return;
+		}
+		const template = frame?.instanceOf;
+		if (!template) return;
+		const usages = template.usages.get(name);
+		if (!template.parameters.has(name)) {
+			issues.push({
+				file: filePath,
+				line,
+				column,
+				code: "unresolved-reference",
+				element: frame.type,
+				message: `@${name} is not a parameter of template @${template.name}.`,
+			});
+			return;
+		}
+		for (const usage of usages ?? []) {
+			recordUsage(value, usage);
+			validatePropertyValue({
+				filePath,
+				line,
+				column,
+				elementType: usage.elementType,
+				propertyName: usage.propertyName,
+				value,
+				aliases,
+				resolveLocal,
+				issues,
+			});
+		}
+	};
 
 	for (let index = 0; index < lines.length; index += 1) {
 		const lineNumber = index + 1;
@@ -72,20 +204,13 @@ export function validateUiDocument(source: string, filePath: string = "<inline>"
 			pending.rawValue = `${pending.rawValue}\n${trimmed}`;
 			const completed = takeUntilTopLevelSemicolon(pending.rawValue);
 			if (!completed.complete) continue;
-			validatePropertyValue({
-				filePath,
-				line: pending.line,
-				column: pending.column,
-				elementType: pending.elementType,
-				propertyName: pending.propertyName,
-				value: completed.value.trim(),
-				issues,
-			});
+			const { complete } = pending;
 			pending = null;
+			complete(completed.value.trim());
 			continue;
 		}
 
-		if (trimmed === "}") {
+		if (trimmed === "}" || (trimmed === "};" && stack[stack.length - 1]?.template)) {
 			if (stack.length === 0) {
 				issues.push({
 					file: filePath,
@@ -95,7 +220,17 @@ export function validateUiDocument(source: string, filePath: string = "<inline>"
 					message: "Unexpected closing brace without an open element.",
 				});
 			} else {
-				stack.pop();
+				const frame = stack.pop()!;
+				if (frame.template && trimmed === "}") {
+					issues.push({
+						file: filePath,
+						line: lineNumber,
+						column: 1,
+						code: "syntax",
+						element: frame.type,
+						message: `Template definition opened on line ${frame.line} must be closed with "};".`,
+					});
+				}
 			}
 			continue;
 		}
@@ -114,28 +249,93 @@ export function validateUiDocument(source: string, filePath: string = "<inline>"
 			continue;
 		}
 
+		const importMatch = stack.length === 0 ? trimmed.match(IMPORT_PATTERN) : null;
+		if (importMatch) {
+			const definitions = importedDocuments.get(importMatch[2]!);
+			if (definitions === null) {
+				issues.push({
+					file: filePath,
+					line: lineNumber,
+					column: 1,
+					code: "unresolved-reference",
+					message: `Imported document "${importMatch[2]}" could not be read.`,
+				});
+			}
+			aliases.set(importMatch[1]!, definitions ?? undefined);
+			continue;
+		}
+
+		// @Name = Type { ... }; defines a template, @Name #Id { ... } instantiates it
+		const templateDefinition = trimmed.match(/^@([A-Za-z][A-Za-z0-9_]*)\s*=\s*([A-Za-z][A-Za-z0-9]*)\s*\{$/);
+		if (templateDefinition) {
+			const elementType = templateDefinition[2]!;
+			validateElementName(elementType, filePath, lineNumber, issues);
+			const template: TemplateInfo = {
+				name: templateDefinition[1]!,
+				elementType,
+				parameters: new Map(),
+				usages: new Map(),
+			};
+			templates.set(templateDefinition[1]!, template);
+			stack.push({ type: elementType, line: lineNumber, template });
+			continue;
+		}
+
+		const templateInstance = trimmed.match(/^@([A-Za-z][A-Za-z0-9_]*)\s*(?:#[A-Za-z][A-Za-z0-9_]*)?\s*\{(\s*\})?$/);
+		if (templateInstance) {
+			const template = templates.get(templateInstance[1]!);
+			if (!template) {
+				issues.push({
+					file: filePath,
+					line: lineNumber,
+					column: 1,
+					code: "unknown-template",
+					message: `Template @${templateInstance[1]} is not defined before it is used.`,
+				});
+			}
+			if (!templateInstance[2]) {
+				stack.push({ type: template?.elementType ?? "", line: lineNumber, instanceOf: template });
+			}
+			continue;
+		}
+
+		const definition = trimmed.match(DEFINITION_PATTERN);
+		if (definition) {
+			const name = definition[1]!;
+			const column = rawLine.indexOf("@") + 1;
+			const completed = takeUntilTopLevelSemicolon(definition[2]!);
+			if (completed.complete) {
+				validateDefinition(name, lineNumber, column, completed.value.trim());
+			} else {
+				pending = {
+					subject: `Definition @${name}`,
+					line: lineNumber,
+					column,
+					rawValue: definition[2]!,
+					complete: value => validateDefinition(name, lineNumber, column, value),
+				};
+			}
+			continue;
+		}
+
 		const propertyMatch = trimmed.match(/^([A-Za-z][A-Za-z0-9]*)\s*:\s*([\s\S]*)$/);
 		if (propertyMatch && stack.length > 0) {
 			const propertyName = propertyMatch[1]!;
 			const valueChunk = propertyMatch[2]!;
+			const elementType = stack[stack.length - 1]!.type;
+			const column = rawLine.indexOf(propertyName) + 1;
 			const completed = takeUntilTopLevelSemicolon(valueChunk);
 			if (completed.complete) {
-				validatePropertyValue({
-					filePath,
-					line: lineNumber,
-					column: rawLine.indexOf(propertyName) + 1,
-					elementType: stack[stack.length - 1]!.type,
-					propertyName,
-					value: completed.value.trim(),
-					issues,
-				});
+				validateProperty(elementType, propertyName, lineNumber, column, completed.value.trim());
 			} else {
 				pending = {
-					elementType: stack[stack.length - 1]!.type,
+					subject: `Property ${propertyName}`,
+					elementType,
 					propertyName,
 					line: lineNumber,
-					column: rawLine.indexOf(propertyName) + 1,
+					column,
 					rawValue: valueChunk,
+					complete: value => validateProperty(elementType, propertyName, lineNumber, column, value),
 				};
 			}
 		}
@@ -149,7 +349,9 @@ export function validateUiDocument(source: string, filePath: string = "<inline>"
 			code: "syntax",
 			element: pending.elementType,
 			property: pending.propertyName,
-			message: `Property ${pending.propertyName} is missing a terminating semicolon.`,
+			message: hasBalancedBrackets(pending.rawValue)
+				? `${pending.subject} is missing a terminating semicolon.`
+				: `${pending.subject} has unbalanced parentheses or brackets.`,
 		});
 	}
 
@@ -170,7 +372,44 @@ export function validateUiDocument(source: string, filePath: string = "<inline>"
 
 export async function validateUiFile(filePath: string): Promise<ValidationResult> {
 	const source = await fsp.readFile(filePath, "utf8");
-	return validateUiDocument(source, filePath);
+	const importedDocuments: ImportedDocuments = new Map();
+	for (const line of source.split(/\r?\n/)) {
+		const importMatch = line.trim().match(IMPORT_PATTERN);
+		if (!importMatch || importedDocuments.has(importMatch[2]!)) continue;
+		const importPath = path.resolve(path.dirname(filePath), importMatch[2]!);
+		const importedSource = await fsp.readFile(importPath, "utf8").catch(() => null);
+		importedDocuments.set(importMatch[2]!, importedSource === null ? null : parseUiDefinitions(importedSource));
+	}
+	return validateUiDocument(source, filePath, importedDocuments);
+}
+
+/** Top-level `@Name = value;` definitions of a document; template definitions are skipped. */
+export function parseUiDefinitions(source: string): Map<string, string> {
+	const definitions = new Map<string, string>();
+	const lines = source.split(/\r?\n/);
+	let depth = 0;
+	for (let index = 0; index < lines.length; index += 1) {
+		const trimmed = stripInlineComments(lines[index] ?? "").trim();
+		if (trimmed.endsWith("{")) {
+			depth += 1;
+			continue;
+		}
+		if (trimmed === "}" || trimmed === "};") {
+			depth = Math.max(0, depth - 1);
+			continue;
+		}
+		const definition = depth === 0 ? trimmed.match(/^@([A-Za-z][A-Za-z0-9_]*)\s*=\s*([\s\S]*)$/) : null;
+		if (!definition) continue;
+		let rawValue = definition[2]!;
+		let completed = takeUntilTopLevelSemicolon(rawValue);
+		while (!completed.complete && index + 1 < lines.length) {
+			index += 1;
+			rawValue = `${rawValue}\n${stripInlineComments(lines[index] ?? "").trim()}`;
+			completed = takeUntilTopLevelSemicolon(rawValue);
+		}
+		definitions.set(definition[1]!, completed.value.trim());
+	}
+	return definitions;
 }
 
 export function formatValidationIssue(issue: ValidationIssue): string {
@@ -200,11 +439,61 @@ function validatePropertyValue(params: {
 	elementType: string;
 	propertyName: string;
 	value: string;
+	aliases: Map<string, Map<string, string> | undefined>;
+	resolveLocal: (name: string) => string | null | undefined;
 	issues: ValidationIssue[];
 }): void {
-	const { filePath, line, column, elementType, propertyName, value, issues } = params;
+	const { filePath, line, column, elementType, propertyName, aliases, resolveLocal, issues } = params;
+	let { value } = params;
 	const elementSchema = UI_SCHEMA.elements[elementType];
 
+	// Local definitions may refer to each other, so follow them to the value they stand for
+	const seen = new Set<string>();
+	for (let local = value.match(LOCAL_REFERENCE_PATTERN); local; local = value.match(LOCAL_REFERENCE_PATTERN)) {
+		const name = local[1]!;
+		const resolved = seen.has(name) ? undefined : resolveLocal(name);
+		if (resolved === null) return;
+		if (resolved === undefined) {
+			issues.push({
+				file: filePath,
+				line,
+				column,
+				code: "unresolved-reference",
+				element: elementType,
+				property: propertyName,
+				message: seen.has(name)
+					? `@${name} is defined in terms of itself.`
+					: `@${name} is not defined in this document or the enclosing template.`,
+			});
+			return;
+		}
+		seen.add(name);
+		value = resolved;
+	}
+
+	const importedReference = value.match(IMPORTED_REFERENCE_PATTERN);
+	if (importedReference) {
+		const [, alias, name] = importedReference;
+		const definitions = aliases.get(alias!);
+		const resolved = definitions?.get(name!);
+		if (!aliases.has(alias!) || (definitions && resolved === undefined)) {
+			issues.push({
+				file: filePath,
+				line,
+				column,
+				code: "unresolved-reference",
+				element: elementType,
+				property: propertyName,
+				message: aliases.has(alias!)
+					? `${value} is not defined in the document imported as ${alias}.`
+					: `${alias} is not imported in this document.`,
+			});
+			return;
+		}
+		// Check what the reference stands for; imports that weren't followed stay opaque
+		if (resolved !== undefined) value = resolved;
+	}
+
 	if (!elementSchema) {
 		// This element is official, but we only have detailed property schema for a subset.
 		return;
@@ -235,7 +524,7 @@ function validatePropertyValue(params: {
 		code: "invalid-value",
 		element: elementType,
 		property: propertyName,
-		message: `${problem.message} Expected ${propertySchema.docsType}; got ${value}.`,
+		message: `${problem.message} Expected ${propertySchema.docsType}; got ${value}${value === params.value ? "" : ` (from ${params.value})`}.`,
 	});
 }
 
@@ -271,6 +560,8 @@ function validateValue(value: string, schema: ValueSchema, propertyPath: string)
 			}
 			return { message: errors[0] ?? `${propertyPath} has an invalid value.` };
 		}
+		case "list":
+			return validateList(value, schema.item, propertyPath);
 		default:
 			return { message: `${propertyPath} has an unsupported schema definition.` };
 	}
@@ -352,6 +643,23 @@ function validateObject(value: string, objectType: string, propertyPath: string)
 	return null;
 }
 
+function validateList(value: string, itemSchema: ValueSchema, propertyPath: string): ValidationProblem | null {
+	if (isReferenceExpression(value)) return null;
+	if (!value.startsWith("[") || !value.endsWith("]")) {
+		return { message: `${propertyPath} must be a list literal like [Item, Item].` };
+	}
+
+	const items = splitTopLevel(value.slice(1, -1), ",");
+	for (let index = 0; index < items.length; index += 1) {
+		const item = items[index]!.trim();
+		if (!item && index === items.length - 1) continue;
+		const problem = validateValue(item, itemSchema, `${propertyPath}[${index}]`);
+		if (problem) return problem;
+	}
+
+	return null;
+}
+
 function parseObjectValue(value: string): ParsedObjectValue | null {
 	const trimmed = value.trim();
 	if (!trimmed) return null;
@@ -549,6 +857,32 @@ function stripInlineComments(line: string): string {
 	return line;
 }
 
+function hasBalancedBrackets(value: string): boolean {
+	const open: string[] = [];
+	let inString = false;
+	let escaped = false;
+
+	for (const char of value) {
+		if (inString) {
+			if (escaped) {
+				escaped = false;
+			} else if (char === "\\") {
+				escaped = true;
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+
+		if (char === '"') inString = true;
+		else if (char === "(" || char === "[") open.push(char);
+		else if (char === ")" && open.pop() !== "(") return false;
+		else if (char === "]" && open.pop() !== "[") return false;
+	}
+
+	return open.length === 0 && !inString;
+}
+
 function isReferenceExpression(value: string): boolean {
 	return REFERENCE_PATTERN.test(value.trim());
 }